@@ -0,0 +1,168 @@
+import {DocumentData, FieldValue, Timestamp} from "@google-cloud/firestore";
+import {isPlainObject} from "./plain-object";
+
+export type AuditOperation = 'create'|'update'|'merge'|'delete'|'restore'
+
+export interface AuditOptions {
+  actorProvider?:() => string|null|undefined,
+  historyCollectionName?:string,
+}
+
+export interface FieldChange {
+  before:any,
+  after:any,
+}
+
+/**
+ * A change made to a document, stored in the history subcollection under that document.
+ * Fields that were missing before or after the change are recorded as null.
+ */
+export interface HistoryRecord {
+  id:string,
+  documentId:string,
+  operation:AuditOperation,
+  changes:{[field:string]:FieldChange},
+  timestamp:Timestamp,
+  actor:string|null,
+}
+
+export type WriteMode = 'create'|'set'|'update'|'merge'|'delete'
+
+export const DEFAULT_HISTORY_COLLECTION_NAME = "history";
+
+// these change on every write, so would only add noise to the history
+const IGNORED_FIELDS = ["id", "createdAt", "updatedAt"]
+
+const isDeleteField = (value:unknown):boolean => {
+  return value instanceof FieldValue && value.isEqual(FieldValue.delete())
+}
+
+// the Firestore client has no public accessors for the arguments of a transform, these are the fields it keeps them in
+interface TransformArguments {
+  methodName?:unknown,
+  operand?:unknown,
+  elements?:unknown,
+}
+
+const transformArguments = (value:unknown):TransformArguments|null => {
+  return value instanceof FieldValue ? <TransformArguments>value : null
+}
+
+const valuesEqual = (left:any, right:any):boolean => {
+  if (left === right) {
+    return true
+  }
+  if (left === null || right === null || left === undefined || right === undefined) {
+    return false
+  }
+  if (typeof left.isEqual === 'function') {
+    return left.isEqual(right)
+  }
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((element, index) => valuesEqual(element, right[index]))
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = Object.keys(left)
+    return keys.length === Object.keys(right).length && keys.every(key => valuesEqual(left[key], right[key]))
+  }
+  return false
+}
+
+// works out the value a field will have once written, server timestamps are kept as they are so they resolve to the commit time
+const resolveValue = (value:any, previous:any):any => {
+  const transform = transformArguments(value)
+  if (!transform) {
+    return value
+  }
+  const {methodName, operand, elements} = transform
+  if (methodName === 'FieldValue.increment' && typeof operand === 'number') {
+    return (typeof previous === 'number' ? previous : 0) + operand
+  }
+  if (methodName === 'FieldValue.arrayUnion' && Array.isArray(elements)) {
+    const result = Array.isArray(previous) ? [...previous] : []
+    elements.forEach(element => {
+      if (!result.some(existing => valuesEqual(existing, element))) {
+        result.push(element)
+      }
+    })
+    return result
+  }
+  if (methodName === 'FieldValue.arrayRemove' && Array.isArray(elements)) {
+    return (Array.isArray(previous) ? previous : []).filter(existing => !elements.some(element => valuesEqual(existing, element)))
+  }
+  return value
+}
+
+const mergeValues = (target:DocumentData, source:DocumentData):DocumentData => {
+  const result:DocumentData = {...target}
+  Object.keys(source).forEach(key => {
+    const value = source[key]
+    if (value === undefined) {
+      return
+    }
+    if (isDeleteField(value)) {
+      delete result[key]
+    } else if (isPlainObject(value)) {
+      result[key] = mergeValues(isPlainObject(result[key]) ? result[key] : {}, value)
+    } else {
+      result[key] = resolveValue(value, result[key])
+    }
+  })
+  return result
+}
+
+const updateValues = (target:DocumentData, source:DocumentData):DocumentData => {
+  const result:DocumentData = {...target}
+  Object.keys(source).forEach(field => {
+    // dotted fields update a value nested in a map, so each map on the way to it is copied
+    const path = field.split('.')
+    let parent = result
+    path.slice(0, -1).forEach(segment => {
+      parent[segment] = isPlainObject(parent[segment]) ? {...parent[segment]} : {}
+      parent = parent[segment]
+    })
+    const last = path[path.length - 1]
+    if (isDeleteField(source[field])) {
+      delete parent[last]
+    } else {
+      parent[last] = resolveValue(source[field], parent[last])
+    }
+  })
+  return result
+}
+
+/**
+ * Works out what a document will look like after a write, as well as can be done without the server.
+ */
+export const applyWrite = (before:DocumentData|null, mode:WriteMode, data:DocumentData|null):DocumentData|null => {
+  switch (mode) {
+    case 'create':
+    case 'set':
+      return mergeValues({}, data ?? {})
+    case 'update':
+      return updateValues(before ?? {}, data ?? {})
+    case 'merge':
+      return mergeValues(before ?? {}, data ?? {})
+    case 'delete':
+      return null
+  }
+}
+
+/**
+ * The top level fields that differ between two versions of a document.
+ */
+export const diffFields = (before:DocumentData|null, after:DocumentData|null):{[field:string]:FieldChange} => {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+  const changes:{[field:string]:FieldChange} = {}
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) {
+      return
+    }
+    const beforeValue = before?.[field] ?? null
+    const afterValue = after?.[field] ?? null
+    if (!valuesEqual(beforeValue, afterValue)) {
+      changes[field] = {before: beforeValue, after: afterValue}
+    }
+  })
+  return changes
+}
@@ -0,0 +1,27 @@
+export type BulkThrottling = boolean|{initialOpsPerSecond?:number, maxOpsPerSecond?:number}
+
+/**
+ * Options for the bulk write methods, which write each document on its own through a Firestore BulkWriter.
+ *
+ * `throttling` is passed to the BulkWriter, which ramps up the rate of writes as recommended by Firestore.
+ * Writes that fail with a transient error are retried by the BulkWriter with an exponential backoff, up to `maxAttempts` times.
+ * At most `maxPendingWrites` documents are queued at once.
+ */
+export interface BulkWriteOptions {
+  throttling?:BulkThrottling,
+  maxAttempts?:number,
+  maxPendingWrites?:number,
+}
+
+export interface BulkWriteFailure {
+  id:string,
+  error:any,
+}
+
+export interface BulkWriteResult {
+  succeeded:Array<string>,
+  failed:Array<BulkWriteFailure>,
+}
+
+export const DEFAULT_BULK_WRITE_MAX_ATTEMPTS = 5;
+export const DEFAULT_BULK_WRITE_MAX_PENDING_WRITES = 500;
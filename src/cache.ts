@@ -0,0 +1,77 @@
+
+/**
+ * Somewhere to keep entities read by a repository, so that repeated reads of the same entity do not go to Firestore.
+ *
+ * Stores may be shared between repositories, keys are the full document path.
+ */
+export interface CacheStore<V> {
+  get(key:string):Promise<V|undefined>,
+  set(key:string, value:V, ttlMillis:number):Promise<void>,
+  delete(key:string):Promise<void>,
+}
+
+export interface CacheOptions<V> {
+  store?:CacheStore<V>,
+  ttlMillis?:number,
+}
+
+export const DEFAULT_CACHE_TTL_MILLIS = 60 * 1000;
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+interface LruEntry<V> {
+  value:V,
+  expiresAt:number,
+}
+
+/**
+ * An in-process store that holds up to `maxEntries` values, evicting the least recently used value when full.
+ */
+export class LruCacheStore<V> implements CacheStore<V> {
+
+  // a Map iterates in insertion order, so re-inserting an entry on each use keeps the least recently used entry first
+  private readonly entries = new Map<string, LruEntry<V>>()
+
+  constructor(
+    private readonly maxEntries:number = DEFAULT_CACHE_MAX_ENTRIES,
+    private readonly now:() => number = Date.now,
+  ) {
+    if (maxEntries < 1) {
+      throw new Error(`An LRU cache must hold at least 1 entry, got ${maxEntries}`)
+    }
+  }
+
+  get size():number {
+    return this.entries.size
+  }
+
+  async get(key:string):Promise<V|undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+    this.entries.delete(key)
+    if (entry.expiresAt <= this.now()) {
+      return undefined
+    }
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  async set(key:string, value:V, ttlMillis:number):Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, {value, expiresAt: this.now() + ttlMillis})
+    while (this.entries.size > this.maxEntries) {
+      const leastRecentlyUsedKey = this.entries.keys().next().value
+      this.entries.delete(<string>leastRecentlyUsedKey)
+    }
+  }
+
+  async delete(key:string):Promise<void> {
+    this.entries.delete(key)
+  }
+
+  clear() {
+    this.entries.clear()
+  }
+
+}
@@ -0,0 +1,64 @@
+
+/**
+ * Maps each item with the given function, running no more than `concurrency` calls at once.
+ * The results are in the same order as the items.
+ */
+export const mapWithConcurrency = async <I, R>(
+  items:Array<I>,
+  concurrency:number,
+  mapper:(item:I, index:number) => Promise<R>,
+):Promise<Array<R>> => {
+  if (concurrency < 1) {
+    throw new Error(`Concurrency must be at least 1, got ${concurrency}`)
+  }
+  const results = new Array<R>(items.length)
+  let nextIndex = 0
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await mapper(items[index], index)
+    }
+  }
+  const workers = new Array<Promise<void>>()
+  for (let i = 0; i < Math.min(concurrency, items.length); i++) {
+    workers.push(worker())
+  }
+  await Promise.all(workers)
+  return results
+}
+
+export const sleep = async (millis:number):Promise<void> => {
+  return new Promise<void>(resolve => {
+    setTimeout(() => resolve(), millis)
+  })
+}
+
+/**
+ * Spaces out work so that no more than `permitsPerSecond` permits are handed out each second on average.
+ */
+export class RateLimiter {
+
+  private nextAvailableAt = 0
+
+  constructor(
+    private readonly permitsPerSecond:number,
+    private readonly now:() => number = Date.now,
+  ) {
+    if (permitsPerSecond <= 0) {
+      throw new Error(`Rate limit must be greater than 0, got ${permitsPerSecond}`)
+    }
+  }
+
+  /**
+   * Waits until the permits can be used, the first call never waits.
+   */
+  async acquire(permits:number):Promise<void> {
+    const now = this.now()
+    const startAt = Math.max(now, this.nextAvailableAt)
+    this.nextAvailableAt = startAt + permits * 1000 / this.permitsPerSecond
+    if (startAt > now) {
+      await sleep(startAt - now)
+    }
+  }
+
+}
@@ -0,0 +1,142 @@
+import {DocumentData, FieldValue, FirestoreDataConverter, QueryDocumentSnapshot, SetOptions, Timestamp} from "@google-cloud/firestore";
+import {isPlainObject} from "./plain-object";
+
+/**
+ * Converts entities to the documents stored in Firestore and back.
+ *
+ * `toFirestore` is given the fields of a create, or with `{merge: true}` the fields of an update,
+ * which may hold dotted paths and Firestore `FieldValue`s. `fromFirestore` is given the snapshot of each document read.
+ */
+export type EntityConverter = FirestoreDataConverter<any, DocumentData>
+
+/**
+ * Converts the value of a single field, e.g. a class instance to a map that can be stored.
+ */
+export interface FieldCodec<V = any, S = any> {
+  encode:(value:V) => S,
+  decode:(stored:S) => V,
+}
+
+/**
+ * Builds a converter from functions of the document data, rather than of the snapshot.
+ */
+export const dataConverter = (
+  toFirestore:(data:DocumentData, merge:boolean) => DocumentData,
+  fromFirestore:(data:DocumentData) => DocumentData,
+):EntityConverter => ({
+  toFirestore: (modelObject:DocumentData, options?:SetOptions) => toFirestore(modelObject, !!options),
+  fromFirestore: (snapshot:QueryDocumentSnapshot) => fromFirestore(snapshot.data()),
+})
+
+const timestampsToDates = (value:any):any => {
+  if (value instanceof Timestamp) {
+    return value.toDate()
+  }
+  if (Array.isArray(value)) {
+    return value.map(timestampsToDates)
+  }
+  if (isPlainObject(value)) {
+    const result:DocumentData = {}
+    Object.keys(value).forEach(key => {
+      result[key] = timestampsToDates(value[key])
+    })
+    return result
+  }
+  return value
+}
+
+/**
+ * Reads every Timestamp as a Date, including `createdAt` and `updatedAt`, so entities should extend `Entity<Date>`.
+ * Dates are stored as Timestamps by Firestore, so writes are left as they are.
+ * Dates only hold milliseconds, so any finer precision of a Timestamp is lost.
+ */
+export const timestampToDateConverter:EntityConverter = dataConverter(data => data, timestampsToDates)
+
+/**
+ * Replaces the values at the given paths with the result of `convert`,
+ * whether they are given by dotted fields, as in updates, or nested in maps.
+ */
+export const convertFields = (
+  data:DocumentData,
+  paths:Array<string>,
+  convert:(path:string, value:any) => any,
+  prefix:string|null = null,
+):DocumentData => {
+  const result:DocumentData = {}
+  Object.keys(data).forEach(key => {
+    const path = prefix === null ? key : `${prefix}.${key}`
+    const value = data[key]
+    if (paths.includes(path)) {
+      result[key] = convert(path, value)
+    } else if (isPlainObject(value) && paths.some(convertedPath => convertedPath.startsWith(`${path}.`))) {
+      result[key] = convertFields(value, paths, convert, path)
+    } else {
+      result[key] = value
+    }
+  })
+  return result
+}
+
+/**
+ * Converts the fields at the given paths with their codecs, nested fields are given by dotted paths, e.g. `price.amount`.
+ * Field values, such as increments, are written as they are.
+ */
+export const fieldCodecConverter = (codecs:{[path:string]:FieldCodec}):EntityConverter => {
+  const paths = Object.keys(codecs)
+  const convert = (data:DocumentData, direction:keyof FieldCodec):DocumentData => {
+    return convertFields(data, paths, (path, value) => {
+      return value === null || value === undefined || value instanceof FieldValue ? value : codecs[path][direction](value)
+    })
+  }
+  return dataConverter(data => convert(data, 'encode'), data => convert(data, 'decode'))
+}
+
+// the converters after the first are given a snapshot holding the data converted so far
+const withData = (snapshot:QueryDocumentSnapshot, data:DocumentData):QueryDocumentSnapshot => {
+  return Object.create(snapshot, {data: {value: () => data}})
+}
+
+/**
+ * Chains converters, listed from the entity to the stored document.
+ * Writes go through them in order and reads in reverse, so each converter reads what the one after it wrote.
+ */
+export const composeConverters = (...converters:Array<EntityConverter>):EntityConverter => ({
+  toFirestore: (modelObject:DocumentData, options?:SetOptions) => converters.reduce(
+    (data, converter) => options ? converter.toFirestore(data, options) : converter.toFirestore(data),
+    modelObject,
+  ),
+  fromFirestore: (snapshot:QueryDocumentSnapshot) => converters.reduceRight(
+    (data, converter) => converter.fromFirestore(withData(snapshot, data)),
+    snapshot.data(),
+  ),
+})
+
+/**
+ * Codecs for values Firestore cannot store as they are.
+ */
+export const FieldCodecs = {
+  map: <V>():FieldCodec<Map<string, V>, {[key:string]:V}> => ({
+    encode: map => Object.fromEntries(map),
+    decode: stored => new Map(Object.entries(stored)),
+  }),
+  // stores the name of an enum member rather than its value, so values can be renumbered without migrating documents
+  enumByName: <E extends {[key:string]:string|number}>(enumObject:E):FieldCodec<E[keyof E], string> => {
+    // numeric enums map their values back to their names as well, those entries are skipped
+    const names = Object.keys(enumObject).filter(name => Number.isNaN(Number(name)))
+    return {
+      encode: value => {
+        const name = names.find(candidate => enumObject[candidate] === value)
+        if (name === undefined) {
+          throw new Error(`${String(value)} is not a value of the enum`)
+        }
+        return name
+      },
+      decode: stored => {
+        if (!names.includes(stored)) {
+          throw new Error(`${stored} is not a name of the enum`)
+        }
+        return <E[keyof E]>enumObject[stored]
+      },
+    }
+  },
+}
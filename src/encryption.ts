@@ -0,0 +1,196 @@
+import {createCipheriv, createDecipheriv, createHmac, randomBytes} from "crypto";
+import {DocumentData, FieldValue, Firestore} from "@google-cloud/firestore";
+import {QueryFilter} from "./index";
+import {convertFields, dataConverter, EntityConverter} from "./converter";
+import {decodeValue, encodeValue, JsonValue} from "./serialization";
+import {EncryptionError, InvalidQueryError} from "./errors";
+
+/**
+ * Gives the keys fields are encrypted with, each a 32 byte AES-256 key.
+ * Values are encrypted with the current key, and keep the ID of their key so that they can be decrypted after it is rotated.
+ */
+export interface EncryptionKeyProvider {
+  currentKeyId:() => string,
+  getKey:(keyId:string) => Uint8Array,
+}
+
+/**
+ * A deterministic field is encrypted to the same value each time, so it can be queried for equality,
+ * at the cost of showing which entities share a value.
+ */
+export interface EncryptedField {
+  deterministic?:boolean,
+}
+
+export interface EncryptionOptions {
+  keyProvider:EncryptionKeyProvider,
+  fields:{[path:string]:EncryptedField},
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const ENCRYPTED_PREFIX = 'enc:v1';
+const EQUALITY_OPERATIONS = ['==', '!=', 'in', 'not-in'];
+
+/**
+ * A key provider for keys known up front, given as bytes or base64 strings, e.g. read from a secret manager at startup.
+ */
+export const staticKeyProvider = (keys:{[keyId:string]:string|Uint8Array}, currentKeyId:string):EncryptionKeyProvider => {
+  const keysById = new Map<string, Uint8Array>(
+    Object.entries(keys).map(([keyId, key]) => [keyId, typeof key === 'string' ? Buffer.from(key, 'base64') : key])
+  )
+  const getKey = (keyId:string):Uint8Array => {
+    const key = keysById.get(keyId)
+    if (!key) {
+      throw new Error(`There is no encryption key with ID ${keyId}`)
+    }
+    return key
+  }
+  getKey(currentKeyId)
+  return {currentKeyId: () => currentKeyId, getKey}
+}
+
+const valueAtPath = (data:DocumentData, path:string):any => {
+  return path.split('.').reduce((value, segment) => value !== null && typeof value === 'object' ? value[segment] : undefined, data)
+}
+
+/**
+ * Encrypts and decrypts the configured fields with AES-256-GCM.
+ *
+ * Encrypted values are stored as strings holding the key ID, IV, ciphertext and authentication tag.
+ * The field path is authenticated with the value, so an encrypted value cannot be copied to another field.
+ * Values that are not encrypted, such as ones written before encryption was turned on, are read as they are.
+ */
+export class FieldEncryptor {
+
+  private readonly paths:Array<string>;
+
+  constructor(
+    private readonly collectionName:string,
+    private readonly options:EncryptionOptions,
+    private readonly firestore:Firestore,
+  ) {
+    this.paths = Object.keys(options.fields)
+  }
+
+  converter():EntityConverter {
+    return dataConverter(
+      data => convertFields(data, this.paths, (path, value) => this.encryptWrite(path, value)),
+      data => convertFields(data, this.paths, (path, value) => this.decrypt(path, value)),
+    )
+  }
+
+  encrypt(path:string, value:any):string {
+    const keyId = this.options.keyProvider.currentKeyId()
+    if (keyId.includes(':')) {
+      throw new EncryptionError(this.collectionName, path, `the key ID ${keyId} cannot contain ':'`)
+    }
+    const key = this.key(path, keyId)
+    const plaintext = Buffer.from(JSON.stringify(encodeValue(value)))
+    // a deterministic IV is derived from the value, with a key of its own so that it does not give away the encryption key
+    const iv = this.options.fields[path]?.deterministic
+      ? createHmac('sha256', createHmac('sha256', key).update('iv').digest()).update(path).update(plaintext).digest().subarray(0, IV_LENGTH)
+      : randomBytes(IV_LENGTH)
+    const cipher = createCipheriv(ALGORITHM, key, iv)
+    cipher.setAAD(Buffer.from(path))
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+    return [ENCRYPTED_PREFIX, keyId, iv, ciphertext, cipher.getAuthTag()]
+      .map(part => typeof part === 'string' ? part : part.toString('base64url'))
+      .join(':')
+  }
+
+  decrypt(path:string, stored:any):any {
+    const keyId = this.keyIdOf(stored)
+    if (keyId === null) {
+      return stored
+    }
+    const [, , , iv, ciphertext, tag] = (<string>stored).split(':').map(part => Buffer.from(part, 'base64url'))
+    try {
+      const decipher = createDecipheriv(ALGORITHM, this.key(path, keyId), iv)
+      decipher.setAAD(Buffer.from(path))
+      decipher.setAuthTag(tag)
+      const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()])
+      return decodeValue(<JsonValue>JSON.parse(plaintext.toString()), this.firestore)
+    } catch (error:any) {
+      if (error instanceof EncryptionError) {
+        throw error
+      }
+      throw new EncryptionError(this.collectionName, path, `the value could not be decrypted with key ${keyId}`, error)
+    }
+  }
+
+  // the ID of the key the value was encrypted with, or null if it is not encrypted
+  keyIdOf(stored:any):string|null {
+    if (typeof stored !== 'string' || !stored.startsWith(`${ENCRYPTED_PREFIX}:`)) {
+      return null
+    }
+    const parts = stored.split(':')
+    return parts.length === 6 ? parts[2] : null
+  }
+
+  /**
+   * The fields of a stored document that are not encrypted with the current key, encrypted with it, as an update by dotted path.
+   */
+  rotatedFields(data:DocumentData):DocumentData {
+    const currentKeyId = this.options.keyProvider.currentKeyId()
+    const update:DocumentData = {}
+    this.paths.forEach(path => {
+      const value = valueAtPath(data, path)
+      if (value === undefined || value === null || this.keyIdOf(value) === currentKeyId) {
+        return
+      }
+      update[path] = this.encrypt(path, this.decrypt(path, value))
+    })
+    return update
+  }
+
+  /**
+   * Encrypts the values of equality filters on deterministic fields, so that they match the stored values.
+   * Other filters on encrypted fields cannot match anything, so they are rejected.
+   */
+  encryptQueries<T>(queries:Array<QueryFilter<T>>):Array<QueryFilter<T>> {
+    return queries.map(query => {
+      if ('queries' in query) {
+        return {...query, queries: this.encryptQueries(query.queries)}
+      }
+      if (!this.paths.includes(query.field)) {
+        return query
+      }
+      if (!this.options.fields[query.field].deterministic || !EQUALITY_OPERATIONS.includes(query.operation)) {
+        throw new InvalidQueryError(
+          this.collectionName,
+          `${query.field} is encrypted, it can only be queried with ==, !=, in or not-in when it is deterministic`,
+        )
+      }
+      const encrypt = (value:any) => value === null ? null : this.encrypt(query.field, value)
+      return {...query, value: Array.isArray(query.value) && ['in', 'not-in'].includes(query.operation)
+        ? query.value.map(encrypt)
+        : encrypt(query.value)}
+    })
+  }
+
+  private encryptWrite(path:string, value:any):any {
+    if (value === null || value === undefined || (value instanceof FieldValue && value.isEqual(FieldValue.delete()))) {
+      return value
+    }
+    if (value instanceof FieldValue) {
+      throw new EncryptionError(this.collectionName, path, `field transforms cannot be applied to encrypted fields`)
+    }
+    return this.encrypt(path, value)
+  }
+
+  private key(path:string, keyId:string):Uint8Array {
+    let key:Uint8Array
+    try {
+      key = this.options.keyProvider.getKey(keyId)
+    } catch (error:any) {
+      throw new EncryptionError(this.collectionName, path, `the key ${keyId} could not be found`, error)
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new EncryptionError(this.collectionName, path, `the key ${keyId} must be ${KEY_LENGTH} bytes long`)
+    }
+    return key
+  }
+
+}
@@ -0,0 +1,231 @@
+export interface ValidationIssue {
+  field:string,
+  message:string,
+}
+
+export type ValidationOperation = 'create'|'update'|'read'
+
+export class ValidationError extends Error {
+
+  constructor(
+    readonly collectionName:string,
+    readonly documentId:string,
+    readonly operation:ValidationOperation,
+    readonly issues:Array<ValidationIssue>,
+    readonly cause?:any,
+  ) {
+    super(`Failed to validate ${operation} of ${collectionName}/${documentId}, invalid fields: ${issues.map(issue => issue.field || '<root>').join(', ')}`)
+    this.name = 'ValidationError'
+  }
+
+  get fields():Array<string> {
+    return this.issues.map(issue => issue.field)
+  }
+
+}
+
+const describeTarget = (collectionName:string, ids:Array<string>):string => {
+  if (ids.length === 1) {
+    return `${collectionName}/${ids[0]}`
+  }
+  return ids.length === 0 ? collectionName : `${ids.length} entities of ${collectionName}`
+}
+
+/**
+ * The base of the errors a repository operation fails with, carrying the collection, the IDs of the entities involved,
+ * and the repository method that failed. The error from Firestore, if there was one, is kept as the `cause`.
+ */
+export class RepositoryError extends Error {
+
+  constructor(
+    readonly collectionName:string,
+    readonly ids:Array<string>,
+    readonly operation:string,
+    message:string,
+    readonly cause?:any,
+  ) {
+    super(message)
+    this.name = 'RepositoryError'
+  }
+
+}
+
+export class EntityNotFoundError extends RepositoryError {
+
+  constructor(collectionName:string, ids:Array<string>, operation:string, cause?:any) {
+    super(collectionName, ids, operation, `${operation} failed, ${describeTarget(collectionName, ids)} was not found`, cause)
+    this.name = 'EntityNotFoundError'
+  }
+
+}
+
+export class AlreadyExistsError extends RepositoryError {
+
+  constructor(collectionName:string, ids:Array<string>, operation:string, cause?:any) {
+    super(collectionName, ids, operation, `${operation} failed, ${describeTarget(collectionName, ids)} already exists`, cause)
+    this.name = 'AlreadyExistsError'
+  }
+
+}
+
+/**
+ * Another write got in the way, e.g. a transaction that kept being aborted by contention, or an entity at an unexpected version.
+ * The operation can be tried again once the entity has been read again.
+ */
+export class ConflictError extends RepositoryError {
+
+  constructor(collectionName:string, ids:Array<string>, operation:string, reason:string, cause?:any) {
+    super(collectionName, ids, operation, `${operation} of ${describeTarget(collectionName, ids)} conflicted with another write: ${reason}`, cause)
+    this.name = 'ConflictError'
+  }
+
+}
+
+export class ConcurrentModificationError extends ConflictError {
+
+  constructor(
+    collectionName:string,
+    readonly documentId:string,
+    readonly expectedVersion:number,
+    readonly actualVersion:number|null,
+    operation:string = 'update',
+  ) {
+    super(collectionName, [documentId], operation, `expected version ${expectedVersion} but it was ${actualVersion === null ? 'missing' : `at version ${actualVersion}`}`)
+    this.name = 'ConcurrentModificationError'
+  }
+
+}
+
+/**
+ * Firestore was unavailable, overloaded or timed out, so the operation may succeed if it is tried again later.
+ * `attempts` is the number of times the operation was tried, more than one when the retry policy retried it.
+ */
+export class TransientError extends RepositoryError {
+
+  constructor(collectionName:string, ids:Array<string>, operation:string, readonly attempts:number, cause?:any) {
+    super(collectionName, ids, operation, `${operation} of ${describeTarget(collectionName, ids)} failed after ${attempts} ${attempts === 1 ? 'attempt' : 'attempts'}: ${cause?.message ?? cause}`, cause)
+    this.name = 'TransientError'
+  }
+
+}
+
+/**
+ * A query needs a composite index that has not been created, `indexUrl` is the link Firestore gives to create it, if any.
+ */
+export class MissingIndexError extends RepositoryError {
+
+  readonly indexUrl:string|null;
+
+  constructor(collectionName:string, operation:string, cause?:any) {
+    super(collectionName, [], operation, `${operation} of ${collectionName} needs an index that does not exist: ${cause?.message ?? cause}`, cause)
+    this.name = 'MissingIndexError'
+    this.indexUrl = String(cause?.message ?? '').match(/https:\/\/\S+/)?.[0] ?? null
+  }
+
+}
+
+// gRPC status codes of the errors Firestore fails with
+const NOT_FOUND = 5
+const ALREADY_EXISTS = 6
+const FAILED_PRECONDITION = 9
+
+// gRPC status codes of errors that may not happen again if the call is retried, ABORTED is a transaction that lost to contention
+const TRANSIENT_ERROR_CODES = [
+  4, // DEADLINE_EXCEEDED
+  8, // RESOURCE_EXHAUSTED
+  10, // ABORTED
+  13, // INTERNAL
+  14, // UNAVAILABLE
+]
+
+export const isTransientError = (error:any):boolean => {
+  return TRANSIENT_ERROR_CODES.includes(error?.code)
+}
+
+/**
+ * Wraps an error from Firestore in the matching RepositoryError. Errors without a status code,
+ * such as validation errors or errors thrown by hooks, and codes with no matching error, are returned as they are.
+ */
+export const toRepositoryError = (error:unknown, collectionName:string, ids:Array<string>, operation:string, attempts:number = 1):unknown => {
+  if (error instanceof RepositoryError || typeof (<any>error)?.code !== 'number') {
+    return error
+  }
+  const firestoreError = <Error & {code:number, details?:string}>error
+  if (isTransientError(firestoreError)) {
+    return new TransientError(collectionName, ids, operation, attempts, firestoreError)
+  }
+  switch (firestoreError.code) {
+    case NOT_FOUND:
+      return new EntityNotFoundError(collectionName, ids, operation, firestoreError)
+    case ALREADY_EXISTS:
+      return new AlreadyExistsError(collectionName, ids, operation, firestoreError)
+    case FAILED_PRECONDITION:
+      // Firestore fails queries that need an index that does not exist with a failed precondition that links to the index
+      return /index/i.test(firestoreError.message ?? '')
+        ? new MissingIndexError(collectionName, operation, firestoreError)
+        : new ConflictError(collectionName, ids, operation, firestoreError.details ?? firestoreError.message, firestoreError)
+  }
+  return error
+}
+
+export class InvalidCursorError extends Error {
+
+  constructor(
+    readonly cursor:string,
+    reason:string,
+  ) {
+    super(`Invalid page cursor: ${reason}`)
+    this.name = 'InvalidCursorError'
+  }
+
+}
+
+export class InvalidQueryError extends Error {
+
+  constructor(
+    readonly collectionName:string,
+    reason:string,
+  ) {
+    super(`Invalid query on ${collectionName}: ${reason}`)
+    this.name = 'InvalidQueryError'
+  }
+
+}
+
+export class EncryptionError extends Error {
+
+  constructor(
+    readonly collectionName:string,
+    readonly field:string,
+    reason:string,
+    readonly cause?:any,
+  ) {
+    super(`Failed to encrypt or decrypt ${field} in ${collectionName}: ${reason}`)
+    this.name = 'EncryptionError'
+  }
+
+}
+
+export class MissingTenantError extends Error {
+
+  constructor(
+    readonly collectionName:string,
+  ) {
+    super(`No tenant is set for ${collectionName}, use forTenant() or set a tenantProvider`)
+    this.name = 'MissingTenantError'
+  }
+
+}
+
+export class TenantAccessError extends Error {
+
+  constructor(
+    readonly collectionName:string,
+    readonly documentId:string,
+    readonly tenantId:string,
+  ) {
+    super(`${collectionName}/${documentId} does not belong to tenant ${tenantId}`)
+    this.name = 'TenantAccessError'
+  }
+
+}
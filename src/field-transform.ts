@@ -0,0 +1,119 @@
+import {DocumentData, FieldValue} from "@google-cloud/firestore";
+import {EntityPath, PathValue} from "./query-builder";
+import {isPlainObject} from "./plain-object";
+
+export type FieldTransformKind = 'increment'|'arrayUnion'|'arrayRemove'|'delete'
+
+/**
+ * A change to a field made by the server, such as an increment, that is checked against the type of the field it is used on.
+ * The repository translates it to the matching Firestore `FieldValue` when the update is written.
+ */
+export class FieldTransform<K extends FieldTransformKind = FieldTransformKind, V = unknown> {
+
+  private constructor(
+    readonly kind:K,
+    readonly operand:V,
+  ) {}
+
+  static increment(amount:number):FieldTransform<'increment', number> {
+    return new FieldTransform('increment', amount)
+  }
+
+  static arrayUnion<E>(...elements:Array<E>):FieldTransform<'arrayUnion', Array<E>> {
+    return new FieldTransform('arrayUnion', elements)
+  }
+
+  static arrayRemove<E>(...elements:Array<E>):FieldTransform<'arrayRemove', Array<E>> {
+    return new FieldTransform('arrayRemove', elements)
+  }
+
+  static deleteField():FieldTransform<'delete', null> {
+    return new FieldTransform('delete', null)
+  }
+
+  toFieldValue():FieldValue {
+    switch (this.kind) {
+      case 'increment':
+        return FieldValue.increment(<number>this.operand)
+      case 'arrayUnion':
+        return FieldValue.arrayUnion(...<Array<unknown>>this.operand)
+      case 'arrayRemove':
+        return FieldValue.arrayRemove(...<Array<unknown>>this.operand)
+      case 'delete':
+        return FieldValue.delete()
+    }
+    throw new Error(`Unknown field transform: ${this.kind}`)
+  }
+
+}
+
+type NestedPath<T> = Extract<EntityPath<T>, `${string}.${string}`>
+
+type IsOptionalPath<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T ? IsOptionalPath<NonNullable<T[K]>, Rest> : false
+  : P extends keyof T ? undefined extends T[P] ? true : false : false
+
+/**
+ * The values a field of type `V` can be updated with: a value of its type,
+ * `increment` for number fields, `arrayUnion` and `arrayRemove` for array fields, and `deleteField` for optional fields.
+ */
+export type UpdateValue<V, Optional extends boolean = false> =
+  | V
+  | (NonNullable<V> extends number ? FieldTransform<'increment', number> : never)
+  | (NonNullable<V> extends ReadonlyArray<infer E> ? FieldTransform<'arrayUnion'|'arrayRemove', Array<E>> : never)
+  | (Optional extends true ? FieldTransform<'delete', null> : never)
+
+/**
+ * The fields of an update, with the fields of nested maps as dotted paths, e.g. `address.city`.
+ */
+export type UpdateFields<T> = {
+  [K in keyof T]?:UpdateValue<T[K], undefined extends T[K] ? true : false>
+} & {
+  [P in NestedPath<T>]?:UpdateValue<PathValue<T, P>, IsOptionalPath<T, P>>
+}
+
+// set with merge does not read dotted fields as paths, so they are written as nested maps instead
+const setPath = (target:DocumentData, path:Array<string>, value:any) => {
+  const [segment, ...rest] = path
+  if (rest.length === 0) {
+    target[segment] = value
+    return
+  }
+  // the map is copied, so a map passed in the update is not changed
+  const nested = target[segment]
+  target[segment] = isPlainObject(nested) ? {...nested} : {}
+  setPath(target[segment], rest, value)
+}
+
+/**
+ * Splits an update into its plain values and its field transforms, as a validator of the entity's fields cannot parse a transform.
+ */
+export const splitTransforms = (update:DocumentData):{values:DocumentData, transforms:DocumentData} => {
+  const values:DocumentData = {}
+  const transforms:DocumentData = {}
+  Object.keys(update).forEach(field => {
+    if (update[field] instanceof FieldTransform) {
+      transforms[field] = update[field]
+    } else {
+      values[field] = update[field]
+    }
+  })
+  return {values, transforms}
+}
+
+/**
+ * Translates the field transforms of an update to Firestore field values.
+ * Dotted fields are expanded into nested maps when the update is merged rather than updated.
+ */
+export const toFieldValues = (update:DocumentData, expandPaths:boolean = false):DocumentData => {
+  const result:DocumentData = {}
+  Object.keys(update).forEach(field => {
+    const value = update[field] instanceof FieldTransform ? update[field].toFieldValue() : update[field]
+    if (expandPaths) {
+      setPath(result, field.split('.'), value)
+    } else {
+      result[field] = value
+    }
+  })
+  return result
+}
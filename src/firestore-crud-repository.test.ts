@@ -1,14 +1,63 @@
-import {BatchUpdate, Create, Entity, FirestoreCrudRepository, RepositoryOperationStats, SortOrder} from "./index";
+import {
+  AlreadyExistsError,
+  BatchUpdate,
+  CollectionGroupRepository,
+  Create,
+  EncryptionError,
+  Entity,
+  EntityChanges,
+  FieldTransform,
+  Filter,
+  FirestoreCrudRepository,
+  ImportProgress,
+  InMemoryFirestore,
+  InvalidCursorError,
+  InvalidQueryError,
+  LruCacheStore,
+  MigrationFailure,
+  MigrationRunner,
+  MissingTenantError,
+  RepositoryOperationStats,
+  runInTransaction,
+  SortOrder,
+  SpanAttributeValue,
+  StatsAggregator,
+  staticKeyProvider,
+  StatusCode,
+  TelemetryTracer,
+  TenantAccessError,
+  ConcurrentModificationError,
+  ConflictError,
+  composeConverters,
+  EntityNotFoundError,
+  MissingIndexError,
+  RepositoryError,
+  retryDelay,
+  toRepositoryError,
+  TransientError,
+  FieldCodec,
+  fieldCodecConverter,
+  FieldCodecs,
+  timestampToDateConverter,
+  unfinishedPartitions,
+  ValidationError,
+  Validator,
+  queryShape,
+} from "./index";
 import {uuid} from "./uuid";
 import flatten from "lodash.flatten";
-import {Firestore} from "@google-cloud/firestore";
+import {DocumentReference, FieldValue, Firestore, GeoPoint, Timestamp} from "@google-cloud/firestore";
+import {PassThrough, Readable} from "stream";
+import {randomBytes} from "crypto";
 
-let firestore:Firestore|null = null
+let firestore:Firestore|InMemoryFirestore|null = null
 
+// Runs against the in-memory backend unless FIRESTORE_EMULATOR_HOST points at a running emulator.
 export const getFirestoreForTesting = () => {
   if (!firestore) {
-    process.env.FIRESTORE_EMULATOR_HOST = "localhost:8144"
-    firestore = new Firestore();
+    firestore = process.env.FIRESTORE_EMULATOR_HOST
+      ? new Firestore()
+      : new InMemoryFirestore();
   }
   return firestore
 }
@@ -23,6 +72,16 @@ const sleep = async (millis:number) => {
   })
 }
 
+const waitFor = async (condition:() => boolean, timeoutMillis = 2000) => {
+  const start = Date.now()
+  while (!condition()) {
+    if (Date.now() - start > timeoutMillis) {
+      throw new Error("Timed out waiting for condition")
+    }
+    await sleep(5)
+  }
+}
+
 const COLLECTION_NAME = "hello_world"
 
 describe("FirestoreCrudRepository", () => {
@@ -206,6 +265,109 @@ describe("FirestoreCrudRepository", () => {
       expect(opStats.numberOfReads).toBe(3)
       expect(opStats.numberOfDeletes).toBe(0)
     })
+
+    it("Should return unique entities in the order of the ids", async () => {
+      const ids = await repo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}, {greeting: "hello3"}])
+
+      const entities = await repo.getManyById([ids[2], ids[0], ids[2], ids[1], ids[0]])
+
+      expect(entities.map(ent => ent.greeting)).toEqual(["hello3", "hello1", "hello2"])
+      expect(opStats.numberOfReads).toBe(3)
+    })
+
+    it("Should report the ids that were not found", async () => {
+      const ids = await repo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}])
+
+      const result = await repo.getManyByIdWithMissing(["missing1", ids[1], "missing2", ids[0]])
+
+      expect(result.found.map(ent => ent.greeting)).toEqual(["hello2", "hello1"])
+      expect(result.missingIds).toEqual(["missing1", "missing2"])
+      expect(opStats.numberOfReads).toBe(4)
+    })
+
+    it("Should read large id lists in batches", async () => {
+      const creates = new Array<Create<HelloWorld>>()
+      for (let i = 0; i < 25; i++) {
+        creates.push({greeting: `hello${i}`})
+      }
+      const ids = await repo.batchCreate(creates)
+
+      const entities = await repo.getManyById(ids, {batchSize: 10, concurrency: 2})
+
+      expect(entities.map(ent => ent.id)).toEqual(ids)
+      expect(opStats.numberOfReads).toBe(25)
+    })
+
+    it("Should not read anything for an empty list of ids", async () => {
+      expect(await repo.getManyById([])).toEqual([])
+      expect(opStats.numberOfReads).toBe(0)
+    })
+  })
+
+  describe("upsert", () => {
+    it("Should create the entity and then update it", async () => {
+      const id = uuid()
+
+      const created = await repo.upsert(id, {greeting: "hello"})
+      const createdEntity = await repo.getOne(id)
+      await sleep(5)
+      const updated = await repo.upsert(id, {greeting: "hi"})
+      const updatedEntity = await repo.getOne(id)
+
+      expect(created).toEqual({id, created: true})
+      expect(updated).toEqual({id, created: false})
+      expect(updatedEntity?.greeting).toBe("hi")
+      expect(updatedEntity?.createdAt.isEqual(createdEntity!.createdAt)).toBe(true)
+      expect(updatedEntity!.updatedAt.toMillis()).toBeGreaterThan(createdEntity!.updatedAt.toMillis())
+      expect(opStats.numberOfReads).toBe(4)
+      expect(opStats.numberOfWrites).toBe(2)
+    })
+
+    it("Should upsert in batch and say which entities were created", async () => {
+      const existingId = await repo.createOnly({greeting: "hello"})
+      const newId = uuid()
+
+      const results = await repo.batchUpsert([
+        {id: newId, value: {greeting: "new"}},
+        {id: existingId, value: {greeting: "updated"}},
+      ])
+
+      expect(results).toEqual([{id: newId, created: true}, {id: existingId, created: false}])
+      expect((await repo.getOne(newId))?.greeting).toBe("new")
+      expect((await repo.getOne(existingId))?.greeting).toBe("updated")
+      await expect(repo.batchUpsert([
+        {id: newId, value: {greeting: "a"}},
+        {id: newId, value: {greeting: "b"}},
+      ])).rejects.toThrow()
+    })
+  })
+
+  describe("createIfAbsent", () => {
+    it("Should only create the entity if it does not exist", async () => {
+      const id = uuid()
+
+      const first = await repo.createIfAbsent(id, {greeting: "first"})
+      const second = await repo.createIfAbsent(id, {greeting: "second"})
+
+      expect(first).toEqual({id, created: true})
+      expect(second).toEqual({id, created: false})
+      expect((await repo.getOne(id))?.greeting).toBe("first")
+      expect(opStats.numberOfWrites).toBe(1)
+    })
+
+    it("Should create the entities that do not exist in batch", async () => {
+      const existingId = await repo.createOnly({greeting: "existing"})
+      const newId = uuid()
+
+      const results = await repo.batchCreateIfAbsent([
+        {id: existingId, create: {greeting: "replaced"}},
+        {id: newId, create: {greeting: "new"}},
+      ])
+
+      expect(results).toEqual([{id: existingId, created: false}, {id: newId, created: true}])
+      expect((await repo.getOne(existingId))?.greeting).toBe("existing")
+      expect((await repo.getOne(newId))?.greeting).toBe("new")
+    })
   })
 
   describe("updateOnly", () => {
@@ -317,6 +479,111 @@ describe("FirestoreCrudRepository", () => {
     })
   })
 
+  describe("field transforms", () => {
+    interface Counter extends Entity {
+      name:string,
+      count:number,
+      labels:Array<string>,
+      note?:string,
+      stats:{views:number, lastViewer?:string},
+    }
+
+    let counterRepo:FirestoreCrudRepository<Counter>
+
+    beforeAll(() => {
+      counterRepo = new FirestoreCrudRepository<Counter>(getFirestoreForTesting(), "counter")
+    })
+
+    beforeEach(async () => {
+      const counters = await counterRepo.getMany([])
+      await counterRepo.batchDelete(counters.map(counter => counter.id))
+    })
+
+    const createCounter = () => counterRepo.createOnly({
+      name: "a", count: 1, labels: ["x", "y"], note: "first", stats: {views: 2, lastViewer: "bob"},
+    })
+
+    it("Should return the values resolved by the server", async () => {
+      const id = await createCounter()
+
+      const updated = await counterRepo.updateOneAndReturn(id, {
+        count: FieldTransform.increment(2),
+        labels: FieldTransform.arrayUnion("z"),
+        note: FieldTransform.deleteField(),
+      })
+
+      expect(updated?.count).toBe(3)
+      expect(updated?.labels).toEqual(["x", "y", "z"])
+      expect(updated).not.toHaveProperty("note")
+      const removed = await counterRepo.updateOneAndReturn(id, {labels: FieldTransform.arrayRemove("x", "z")})
+      expect(removed?.labels).toEqual(["y"])
+    })
+
+    it("Should update nested fields by dotted path", async () => {
+      const id = await createCounter()
+
+      await counterRepo.updateOnly(id, {"stats.views": FieldTransform.increment(1), "stats.lastViewer": FieldTransform.deleteField()})
+      expect((await counterRepo.getOne(id))?.stats).toEqual({views: 3})
+
+      await counterRepo.mergeOnly(id, {"stats.lastViewer": "cat", name: "b"})
+      const merged = await counterRepo.getOne(id)
+      expect(merged?.stats).toEqual({views: 3, lastViewer: "cat"})
+      expect(merged?.name).toBe("b")
+      expect(merged).not.toHaveProperty(["stats.lastViewer"])
+    })
+
+    it("Should apply field transforms in batch updates", async () => {
+      const ids = await Promise.all([createCounter(), createCounter()])
+
+      await counterRepo.batchUpdate(ids.map(id => ({id, update: {count: FieldTransform.increment(10)}})))
+
+      const counters = await counterRepo.getManyById(ids)
+      expect(counters.map(counter => counter.count)).toEqual([11, 11])
+    })
+
+    it("Should validate the plain values of an update alongside its field transforms", async () => {
+      // a zod-style validator of the update, which would reject a transform as the value of a number field
+      const validatedRepo = new FirestoreCrudRepository<Counter>(getFirestoreForTesting(), "counter", {
+        validator: {
+          update: {
+            parse: (value:any) => {
+              const invalidField = Object.keys(value).find(field => field !== "name" && typeof value[field] !== "number")
+              if (invalidField) {
+                throw Object.assign(new Error("Invalid update"), {issues: [{path: [invalidField], message: "Expected a number"}]})
+              }
+              return value
+            },
+          },
+        },
+      })
+      const id = await createCounter()
+
+      await validatedRepo.updateOnly(id, {name: "b", count: FieldTransform.increment(2), "stats.views": 5})
+      const error = await validatedRepo.updateOnly(id, {"stats.lastViewer": "cat", count: FieldTransform.increment(2)}).catch(err => err)
+
+      expect(await counterRepo.getOne(id)).toMatchObject({name: "b", count: 3, stats: {views: 5}})
+      expect(error).toBeInstanceOf(ValidationError)
+      expect(error.fields).toEqual(["stats.lastViewer"])
+    })
+
+    it("Should only allow field transforms on fields of the matching type", async () => {
+      const id = await createCounter()
+      const invalidUpdates = async () => {
+        // @ts-expect-error increment is only allowed on number fields
+        await counterRepo.updateOnly(id, {name: FieldTransform.increment(1)})
+        // @ts-expect-error array transforms are only allowed on array fields
+        await counterRepo.updateOnly(id, {count: FieldTransform.arrayUnion(1)})
+        // @ts-expect-error array elements must match the type of the array
+        await counterRepo.updateOnly(id, {labels: FieldTransform.arrayUnion(1)})
+        // @ts-expect-error only optional fields can be deleted
+        await counterRepo.updateOnly(id, {name: FieldTransform.deleteField()})
+        // @ts-expect-error nested fields must match the type of the field at the path
+        await counterRepo.updateOnly(id, {"stats.views": "many"})
+      }
+      expect(invalidUpdates).toBeDefined()
+    })
+  })
+
   describe("delete", () => {
     it("Should delete an entity", async () => {
       const id = await repo.createOnly({
@@ -350,7 +617,8 @@ describe("FirestoreCrudRepository", () => {
       expect(postDelete.length).toBe(0)
 
       expect(opStats.numberOfWrites).toBe(3)
-      expect(opStats.numberOfReads).toBe(4)
+      // looking up a missing document is still billed as a read
+      expect(opStats.numberOfReads).toBe(6)
       expect(opStats.numberOfDeletes).toBe(3)
     })
   })
@@ -493,4 +761,2308 @@ describe("FirestoreCrudRepository", () => {
     })
   })
 
+  describe("parallelIterator", () => {
+    const createGreetings = async (count:number):Promise<Array<string>> => {
+      const creates = new Array<Create<HelloWorld>>()
+      for (let i = 0; i < count; i++) {
+        creates.push({greeting: `hello${i}`})
+      }
+      return repo.batchCreate(creates)
+    }
+
+    it("Should visit every entity once when splitting by id range", async () => {
+      const ids = await createGreetings(20)
+      const visited = new Array<string>()
+      const result = await repo.parallelIterator()
+        .strategy('id-range')
+        .workers(4)
+        .batchSize(3)
+        .iterate(async entity => {
+          visited.push(entity.id)
+        })
+
+      expect(visited.slice().sort()).toEqual(ids.slice().sort())
+      expect(result.partitions.length).toBe(4)
+      expect(result.totalNumberOfResults).toBe(20)
+      expect(result.finished).toBe(true)
+      expect(result.partitions.reduce((total, partition) => total + partition.totalNumberOfResults, 0)).toBe(20)
+    })
+
+    it("Should visit every entity once when splitting with a partition query", async () => {
+      const ids = await createGreetings(12)
+      const partitions = await repo.parallelIterator().partitionCount(3).createPartitions()
+      const visited = new Array<string>()
+      const result = await repo.parallelIterator()
+        .partitions(partitions)
+        .workers(2)
+        .batchSize(2)
+        .iterateBatch(async entities => {
+          visited.push(...entities.map(entity => entity.id))
+        })
+
+      expect(partitions.length).toBeGreaterThan(1)
+      expect(partitions.length).toBeLessThanOrEqual(3)
+      expect(visited.slice().sort()).toEqual(ids.slice().sort())
+      expect(result.finished).toBe(true)
+    })
+
+    it("Should scan partitions handed to separate iterators", async () => {
+      const ids = await createGreetings(10)
+      const partitions = await repo.parallelIterator().strategy('id-range').partitionCount(3).createPartitions()
+      const visited = new Array<string>()
+      for (const partition of partitions) {
+        // partitions are plain values, so can be sent to another process as JSON
+        await repo.parallelIterator()
+          .partitions([JSON.parse(JSON.stringify(partition))])
+          .iterate(async entity => {
+            visited.push(entity.id)
+          })
+      }
+
+      expect(visited.slice().sort()).toEqual(ids.slice().sort())
+    })
+
+    it("Should stop every partition and resume from the cursors", async () => {
+      const ids = await createGreetings(12)
+      const visited = new Array<string>()
+      const result = await repo.parallelIterator()
+        .strategy('id-range')
+        .workers(1)
+        .partitionCount(2)
+        .batchSize(2)
+        .iterateBatch(async entities => {
+          visited.push(...entities.map(entity => entity.id))
+          return true
+        })
+
+      expect(visited.length).toBeLessThanOrEqual(2)
+      expect(result.finished).toBe(false)
+      expect(result.totalNumberOfResults).toBe(visited.length)
+      const remaining = unfinishedPartitions(result)
+      const stoppedPartition = result.partitions.find(partition => partition.totalNumberOfResults > 0)!
+      expect(stoppedPartition.lastProcessedId).toBe(visited[visited.length - 1])
+
+      const resumed = await repo.parallelIterator()
+        .partitions(remaining)
+        .iterate(async entity => {
+          visited.push(entity.id)
+        })
+
+      expect(resumed.finished).toBe(true)
+      expect(visited.slice().sort()).toEqual(ids.slice().sort())
+    })
+
+    it("Should resume a partition after the last processed entity was deleted", async () => {
+      const ids = (await createGreetings(6)).sort()
+      const partition = {index: 0, startAtId: null, endBeforeId: null, startAfterId: ids[2]}
+      await repo.delete(ids[2])
+
+      const visited = new Array<string>()
+      const result = await repo.parallelIterator()
+        .partitions([partition])
+        .iterate(async entity => {
+          visited.push(entity.id)
+        })
+
+      expect(result.finished).toBe(true)
+      expect(visited).toEqual(ids.slice(3))
+    })
+  })
+
+  describe("validator", () => {
+    // a minimal zod-style validator, throws an error with issues for each invalid field
+    const greetingValidator = (required:boolean):Validator<any> => ({
+      parse: (value:any) => {
+        const greeting = value.greeting
+        if ((required || greeting !== undefined) && (typeof greeting !== "string" || greeting.length === 0)) {
+          throw Object.assign(new Error("Invalid greeting"), {issues: [{path: ["greeting"], message: "Expected a non-empty string"}]})
+        }
+        return value
+      }
+    })
+
+    let validatedRepo:FirestoreCrudRepository<HelloWorld>
+
+    beforeAll(() => {
+      validatedRepo = new FirestoreCrudRepository<HelloWorld>(
+        getFirestoreForTesting(),
+        COLLECTION_NAME,
+        {
+          validator: {
+            create: greetingValidator(true),
+            update: greetingValidator(false),
+            read: greetingValidator(true),
+          }
+        }
+      )
+    })
+
+    it("Should reject invalid creates", async () => {
+      const error = await validatedRepo.createOnly({greeting: ""}).catch(err => err)
+
+      expect(error).toBeInstanceOf(ValidationError)
+      expect(error.operation).toBe("create")
+      expect(error.fields).toEqual(["greeting"])
+      expect(await repo.getMany([])).toEqual([])
+    })
+
+    it("Should not write any batch if one create is invalid", async () => {
+      await expect(validatedRepo.batchCreate([{greeting: "hello1"}, {greeting: ""}]))
+        .rejects.toBeInstanceOf(ValidationError)
+
+      expect(await repo.getMany([])).toEqual([])
+    })
+
+    it("Should reject invalid updates and merges with the document id", async () => {
+      const id = await validatedRepo.createOnly({greeting: "hello1"})
+
+      const updateError = await validatedRepo.updateOnly(id, {greeting: ""}).catch(err => err)
+      const mergeError = await validatedRepo.mergeOnly(id, {greeting: ""}).catch(err => err)
+      const batchError = await validatedRepo.batchUpdate([{id, update: {greeting: ""}}]).catch(err => err)
+
+      expect(updateError).toBeInstanceOf(ValidationError)
+      expect(updateError.documentId).toBe(id)
+      expect(mergeError).toBeInstanceOf(ValidationError)
+      expect(batchError).toBeInstanceOf(ValidationError)
+      expect((await repo.getOne(id))?.greeting).toBe("hello1")
+    })
+
+    it("Should allow partial updates", async () => {
+      const id = await validatedRepo.createOnly({greeting: "hello1"})
+
+      const updatedId = await validatedRepo.updateOnly(id, {})
+
+      expect(updatedId).toBe(id)
+    })
+
+    it("Should reject invalid documents on read", async () => {
+      const id = await repo.createOnly({greeting: ""})
+
+      await expect(validatedRepo.getOne(id)).rejects.toBeInstanceOf(ValidationError)
+      await expect(validatedRepo.getMany([])).rejects.toBeInstanceOf(ValidationError)
+    })
+  })
+
+  describe("softDelete", () => {
+    let softDeleteRepo:FirestoreCrudRepository<HelloWorld>
+
+    beforeAll(() => {
+      softDeleteRepo = new FirestoreCrudRepository<HelloWorld>(
+        getFirestoreForTesting(),
+        COLLECTION_NAME,
+        {
+          softDelete: true,
+          opStatHandler: stats => {
+            opStats.numberOfWrites = (opStats.numberOfWrites ?? 0) + (stats.numberOfWrites ?? 0)
+            opStats.numberOfReads = (opStats.numberOfReads ?? 0) + (stats.numberOfReads ?? 0)
+            opStats.numberOfDeletes = (opStats.numberOfDeletes ?? 0) + (stats.numberOfDeletes ?? 0)
+          }
+        }
+      )
+    })
+
+    it("Should create a soft deleted entity again when upserting", async () => {
+      const id = await softDeleteRepo.createOnly({greeting: "hello"})
+      await softDeleteRepo.delete(id)
+
+      const result = await softDeleteRepo.upsert(id, {greeting: "hello again"})
+
+      expect(result).toEqual({id, created: true})
+      expect((await softDeleteRepo.getOne(id))?.greeting).toBe("hello again")
+      expect((await softDeleteRepo.getOne(id))?.deletedAt).toBeNull()
+    })
+
+    it("Should hide soft deleted entities", async () => {
+      const ids = await softDeleteRepo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}])
+      const deleted = await softDeleteRepo.delete(ids[0])
+
+      expect(deleted).toBe(true)
+      expect(await softDeleteRepo.getOne(ids[0])).toBeNull()
+      expect((await softDeleteRepo.getOne(ids[0], {includeDeleted: true}))?.deletedAt).toBeTruthy()
+      expect((await softDeleteRepo.getMany([])).map(ent => ent.id)).toEqual([ids[1]])
+      expect((await softDeleteRepo.getMany([], {includeDeleted: true})).length).toBe(2)
+      expect((await softDeleteRepo.getManyById(ids)).map(ent => ent.id)).toEqual([ids[1]])
+      expect(await softDeleteRepo.delete(ids[0])).toBe(false)
+
+      expect(opStats.numberOfWrites).toBe(3)
+      expect(opStats.numberOfDeletes).toBe(0)
+    })
+
+    it("Should not update soft deleted entities in batch", async () => {
+      const ids = await softDeleteRepo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}])
+      await softDeleteRepo.delete(ids[0])
+
+      const error = await softDeleteRepo.batchUpdate(ids.map(id => ({id, update: {greeting: "goodbye"}}))).catch(caught => caught)
+
+      expect(error).toBeInstanceOf(EntityNotFoundError)
+      expect(error).toMatchObject({ids: [ids[0]], operation: "batchUpdate"})
+      expect((await softDeleteRepo.getOne(ids[0], {includeDeleted: true}))?.greeting).toBe("hello1")
+      expect((await softDeleteRepo.getOne(ids[1]))?.greeting).toBe("hello2")
+    })
+
+    it("Should soft delete in batch", async () => {
+      const ids = await softDeleteRepo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}, {greeting: "hello3"}])
+      const deletedCount = await softDeleteRepo.batchDelete([ids[0], ids[1], uuid()])
+
+      expect(deletedCount).toBe(2)
+      expect((await softDeleteRepo.getMany([])).map(ent => ent.id)).toEqual([ids[2]])
+      expect((await repo.getMany([])).length).toBe(3)
+    })
+
+    it("Should skip soft deleted entities when iterating unless included", async () => {
+      const ids = await softDeleteRepo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}, {greeting: "hello3"}])
+      await softDeleteRepo.delete(ids[1])
+
+      const entities = new Array<HelloWorld>()
+      await softDeleteRepo.iterator().batchSize(1).iterate(async entity => {
+        entities.push(entity)
+      })
+      const allEntities = new Array<HelloWorld>()
+      await softDeleteRepo.iterator().batchSize(1).includeDeleted(true).iterate(async entity => {
+        allEntities.push(entity)
+      })
+
+      expect(entities.length).toBe(2)
+      expect(entities.some(ent => ent.id === ids[1])).toBe(false)
+      expect(allEntities.length).toBe(3)
+    })
+
+    it("Should restore a soft deleted entity", async () => {
+      const id = await softDeleteRepo.createOnly({greeting: "hello1"})
+      await softDeleteRepo.delete(id)
+
+      expect(await softDeleteRepo.restore(id)).toBe(true)
+      expect((await softDeleteRepo.getOne(id))?.deletedAt).toBeNull()
+      expect(await softDeleteRepo.restore(id)).toBe(false)
+    })
+
+    it("Should purge entities deleted before the given time", async () => {
+      const ids = await softDeleteRepo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}, {greeting: "hello3"}])
+      await softDeleteRepo.batchDelete([ids[0], ids[1]])
+      await sleep(1)
+      const purgeBefore = new Date()
+      await sleep(1)
+      await softDeleteRepo.delete(ids[2])
+      opStats.numberOfDeletes = 0
+
+      const purgedCount = await softDeleteRepo.purgeDeleted(purgeBefore, {batchSize: 1})
+
+      expect(purgedCount).toBe(2)
+      expect((await repo.getMany([])).map(ent => ent.id)).toEqual([ids[2]])
+      expect(opStats.numberOfDeletes).toBe(2)
+    })
+  })
+
+  describe("versioning", () => {
+    let versionedRepo:FirestoreCrudRepository<HelloWorld>
+
+    beforeAll(() => {
+      versionedRepo = new FirestoreCrudRepository<HelloWorld>(
+        getFirestoreForTesting(),
+        COLLECTION_NAME,
+        {versioning: true}
+      )
+    })
+
+    it("Should increment the version on each write", async () => {
+      const entity = await versionedRepo.createAndReturn({greeting: "hello1"})
+      await versionedRepo.updateOnly(entity.id, {greeting: "hello2"})
+      await versionedRepo.mergeOnly(entity.id, {greeting: "hello3"})
+      await versionedRepo.batchUpdate([{id: entity.id, update: {greeting: "hello4"}}])
+
+      expect(entity.version).toBe(1)
+      expect((await versionedRepo.getOne(entity.id))?.version).toBe(4)
+    })
+
+    it("Should update when the expected version matches", async () => {
+      const entity = await versionedRepo.createAndReturn({greeting: "hello1"})
+
+      const updatedEntity = await versionedRepo.updateOneAndReturn(entity.id, {greeting: "hello2"}, {expectedVersion: 1})
+
+      expect(updatedEntity?.greeting).toBe("hello2")
+      expect(updatedEntity?.version).toBe(2)
+    })
+
+    it("Should reject stale updates and merges", async () => {
+      const entity = await versionedRepo.createAndReturn({greeting: "hello1"})
+      await versionedRepo.updateOnly(entity.id, {greeting: "hello2"})
+
+      const updateError = await versionedRepo.updateOnly(entity.id, {greeting: "stale"}, {expectedVersion: 1}).catch(err => err)
+      const mergeError = await versionedRepo.mergeOnly(entity.id, {greeting: "stale"}, {expectedVersion: 1}).catch(err => err)
+
+      expect(updateError).toBeInstanceOf(ConcurrentModificationError)
+      expect(updateError.expectedVersion).toBe(1)
+      expect(updateError.actualVersion).toBe(2)
+      expect(mergeError).toBeInstanceOf(ConcurrentModificationError)
+      expect((await versionedRepo.getOne(entity.id))?.greeting).toBe("hello2")
+    })
+
+    it("Should only let one of two concurrent updates at the same version succeed", async () => {
+      const entity = await versionedRepo.createAndReturn({greeting: "hello1"})
+
+      const results = await Promise.allSettled([
+        versionedRepo.updateOnly(entity.id, {greeting: "hello2"}, {expectedVersion: 1}),
+        versionedRepo.updateOnly(entity.id, {greeting: "hello3"}, {expectedVersion: 1}),
+      ])
+
+      expect(results.filter(result => result.status === "fulfilled").length).toBe(1)
+      expect(results.filter(result => result.status === "rejected").length).toBe(1)
+      expect((await versionedRepo.getOne(entity.id))?.version).toBe(2)
+    })
+
+    it("Should not write any of a batch with a stale version", async () => {
+      const ids = await versionedRepo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}])
+      await versionedRepo.updateOnly(ids[1], {greeting: "changed"})
+
+      const error = await versionedRepo.batchUpdate([
+        {id: ids[0], update: {greeting: "greeting1"}, expectedVersion: 1},
+        {id: ids[1], update: {greeting: "greeting2"}, expectedVersion: 1},
+      ]).catch(err => err)
+
+      expect(error).toBeInstanceOf(ConcurrentModificationError)
+      expect(error.documentId).toBe(ids[1])
+      expect((await versionedRepo.getOne(ids[0]))?.greeting).toBe("hello1")
+    })
+  })
+
+  describe("converter", () => {
+    enum Status {
+      DRAFT = 0,
+      PUBLISHED = 1,
+    }
+
+    class Money {
+      constructor(readonly amount:number, readonly currency:string) {}
+    }
+
+    interface Event extends Entity<Date> {
+      name:string,
+      startsAt:Date,
+      status:Status,
+      price:Money,
+      seats:Map<string, number>,
+    }
+
+    let eventRepo:FirestoreCrudRepository<Event>
+
+    const moneyCodec:FieldCodec<Money, {amount:number, currency:string}> = {
+      encode: money => ({amount: money.amount, currency: money.currency}),
+      decode: stored => new Money(stored.amount, stored.currency),
+    }
+
+    beforeAll(() => {
+      eventRepo = new FirestoreCrudRepository<Event>(getFirestoreForTesting(), "event", {
+        converter: composeConverters(
+          timestampToDateConverter,
+          fieldCodecConverter({
+            status: FieldCodecs.enumByName(Status),
+            price: moneyCodec,
+            seats: FieldCodecs.map<number>(),
+          }),
+        ),
+      })
+    })
+
+    beforeEach(async () => {
+      const events = await eventRepo.getMany([])
+      await eventRepo.batchDelete(events.map(event => event.id))
+    })
+
+    const createEvent = (name:string) => ({
+      name,
+      startsAt: new Date("2024-05-01T10:00:00.000Z"),
+      status: Status.DRAFT,
+      price: new Money(10, "GBP"),
+      seats: new Map([["front", 5]]),
+    })
+
+    it("Should convert entities when they are written and read", async () => {
+      const event = await eventRepo.createAndReturn(createEvent("gig"))
+
+      expect(event.createdAt).toBeInstanceOf(Date)
+      expect(event.startsAt).toEqual(new Date("2024-05-01T10:00:00.000Z"))
+      expect(event.status).toBe(Status.DRAFT)
+      expect(event.price).toEqual(new Money(10, "GBP"))
+      expect(event.seats.get("front")).toBe(5)
+      const stored = (await eventRepo.getFirebaseCollection().doc(event.id).get()).data()
+      expect(stored?.createdAt).toBeInstanceOf(Timestamp)
+      expect(stored?.status).toBe("DRAFT")
+      expect(stored?.price).toEqual({amount: 10, currency: "GBP"})
+      expect(stored?.seats).toEqual({front: 5})
+    })
+
+    it("Should convert updates, including nested fields and field transforms", async () => {
+      const id = await eventRepo.createOnly(createEvent("gig"))
+
+      const updated = await eventRepo.updateOneAndReturn(id, {
+        status: Status.PUBLISHED,
+        "price.amount": FieldTransform.increment(5),
+      })
+      await eventRepo.mergeOnly(id, {seats: new Map([["back", 2]])})
+
+      expect(updated?.status).toBe(Status.PUBLISHED)
+      expect(updated?.price).toEqual(new Money(15, "GBP"))
+      const merged = await eventRepo.getOne(id)
+      expect(merged?.seats).toEqual(new Map([["front", 5], ["back", 2]]))
+      expect(merged?.updatedAt).toBeInstanceOf(Date)
+    })
+
+    it("Should convert entities in batch methods and the iterator", async () => {
+      const ids = await eventRepo.batchCreate([createEvent("gig"), createEvent("play")])
+      await eventRepo.batchUpdate(ids.map(id => ({id, update: {price: new Money(20, "EUR")}})))
+
+      const iterated = new Array<Event>()
+      await eventRepo.iterator().iterate(async event => {
+        iterated.push(event)
+      })
+
+      expect(iterated.length).toBe(2)
+      iterated.forEach(event => {
+        expect(event.price).toEqual(new Money(20, "EUR"))
+        expect(event.startsAt).toBeInstanceOf(Date)
+      })
+      const stored = await eventRepo.getFirebaseCollection().doc(ids[0]).get()
+      expect(stored.get("price")).toEqual({amount: 20, currency: "EUR"})
+    })
+  })
+
+  describe("encryption", () => {
+    interface Customer extends Entity {
+      name:string,
+      phone:string,
+      nationalId:string,
+      address:{city:string, postcode:string},
+    }
+
+    const keys:{[keyId:string]:Buffer} = {k1: randomBytes(32), k2: randomBytes(32)}
+    let currentKeyId = "k1"
+    let customerRepo:FirestoreCrudRepository<Customer>
+
+    beforeAll(() => {
+      customerRepo = new FirestoreCrudRepository<Customer>(getFirestoreForTesting(), "customer", {
+        encryption: {
+          keyProvider: {currentKeyId: () => currentKeyId, getKey: keyId => keys[keyId]},
+          fields: {phone: {}, nationalId: {deterministic: true}, "address.postcode": {}},
+        },
+      })
+    })
+
+    beforeEach(async () => {
+      currentKeyId = "k1"
+      const customers = await customerRepo.getMany([])
+      await customerRepo.batchDelete(customers.map(customer => customer.id))
+    })
+
+    const createCustomer = (name:string, nationalId:string) => ({
+      name, phone: "07700 900000", nationalId, address: {city: "Leeds", postcode: "LS1 1AA"},
+    })
+    const readStored = async (id:string) => (await customerRepo.getFirebaseCollection().doc(id).get()).data()
+
+    it("Should encrypt fields when written and decrypt them when read", async () => {
+      const id = await customerRepo.createOnly(createCustomer("ann", "AB123456C"))
+      await customerRepo.updateOnly(id, {phone: "07700 900001"})
+      await customerRepo.mergeOnly(id, {address: {city: "York", postcode: "YO1 1AA"}})
+
+      const stored = await readStored(id)
+      expect(stored?.name).toBe("ann")
+      expect(stored?.phone).toMatch(/^enc:v1:k1:/)
+      expect(stored?.nationalId).toMatch(/^enc:v1:k1:/)
+      expect(stored?.address.city).toBe("York")
+      expect(stored?.address.postcode).toMatch(/^enc:v1:k1:/)
+      const customer = await customerRepo.getOne(id)
+      expect(customer?.phone).toBe("07700 900001")
+      expect(customer?.address).toEqual({city: "York", postcode: "YO1 1AA"})
+      expect((await customerRepo.getMany([]))[0].nationalId).toBe("AB123456C")
+    })
+
+    it("Should encrypt in batch methods and decrypt in the iterator", async () => {
+      const ids = await customerRepo.batchCreate([createCustomer("ann", "AB1"), createCustomer("bob", "AB2")])
+      await customerRepo.batchUpdate(ids.map(id => ({id, update: {"address.postcode": "LS2 2BB"}})))
+
+      const customers = new Array<Customer>()
+      await customerRepo.iterator().iterate(async customer => {
+        customers.push(customer)
+      })
+
+      expect(customers.map(customer => customer.address.postcode)).toEqual(["LS2 2BB", "LS2 2BB"])
+      expect((await readStored(ids[0]))?.address.postcode).toMatch(/^enc:v1:/)
+    })
+
+    it("Should only allow equality queries on deterministic fields", async () => {
+      const ids = await customerRepo.batchCreate([createCustomer("ann", "AB1"), createCustomer("bob", "AB2")])
+
+      const matches = await customerRepo.getMany([{field: "nationalId", operation: "==", value: "AB2"}])
+      const inMatches = await customerRepo.getMany([{field: "nationalId", operation: "in", value: ["AB1", "AB2"]}])
+
+      expect(matches.map(customer => customer.id)).toEqual([ids[1]])
+      expect(inMatches.length).toBe(2)
+      await expect(customerRepo.getMany([{field: "nationalId", operation: ">", value: "AB1"}])).rejects.toBeInstanceOf(InvalidQueryError)
+      await expect(customerRepo.getMany([{field: "phone", operation: "==", value: "07700 900000"}])).rejects.toBeInstanceOf(InvalidQueryError)
+    })
+
+    it("Should re-encrypt fields with the current key when rotating keys", async () => {
+      const id = await customerRepo.createOnly(createCustomer("ann", "AB1"))
+      // written before the fields were encrypted
+      await customerRepo.getFirebaseCollection().doc("legacy").set({...createCustomer("bob", "AB2"), id: "legacy"})
+      currentKeyId = "k2"
+
+      expect(await customerRepo.rotateEncryptionKeys({batchSize: 1})).toBe(2)
+      expect(await customerRepo.rotateEncryptionKeys()).toBe(0)
+
+      const stored = await readStored(id)
+      expect(stored?.phone).toMatch(/^enc:v1:k2:/)
+      expect((await readStored("legacy"))?.address.postcode).toMatch(/^enc:v1:k2:/)
+      expect((await customerRepo.getOne(id))?.phone).toBe("07700 900000")
+      expect((await customerRepo.getOne("legacy"))?.nationalId).toBe("AB2")
+      expect((await customerRepo.getMany([{field: "nationalId", operation: "==", value: "AB1"}])).length).toBe(1)
+    })
+
+    it("Should keep encrypted fields encrypted in the history of batch and bulk writes", async () => {
+      const auditedRepo = new FirestoreCrudRepository<Customer>(getFirestoreForTesting(), "audited_customer", {
+        audit: {},
+        encryption: {keyProvider: staticKeyProvider({k1: keys.k1}, "k1"), fields: {phone: {}}},
+      })
+      const ids = await auditedRepo.batchCreate(["ann", "bob", "cat", "dan"].map(name => createCustomer(name, "AB1")))
+
+      await auditedRepo.batchUpdate([{id: ids[0], update: {phone: "07700 900001"}}])
+      await auditedRepo.bulkUpdate([{id: ids[1], update: {phone: "07700 900002"}}])
+      await auditedRepo.batchDelete([ids[2]])
+      await auditedRepo.bulkDelete([ids[3]])
+
+      for (const id of ids) {
+        const history = await auditedRepo.getHistory(id)
+        const {phone} = history[history.length - 1].changes
+        expect(phone.before).toMatch(/^enc:v1:k1:/)
+        expect(phone.after === null || phone.after.startsWith("enc:v1:k1:")).toBe(true)
+      }
+    })
+
+    it("Should keep encrypted fields encrypted in the history of purged entities", async () => {
+      const auditedRepo = new FirestoreCrudRepository<Customer>(getFirestoreForTesting(), "audited_customer", {
+        audit: {},
+        softDelete: true,
+        encryption: {keyProvider: staticKeyProvider({k1: keys.k1}, "k1"), fields: {phone: {}}},
+      })
+      const id = await auditedRepo.createOnly(createCustomer("ann", "AB1"))
+      await auditedRepo.delete(id)
+
+      expect(await auditedRepo.purgeDeleted(new Date(Date.now() + 1000))).toBeGreaterThanOrEqual(1)
+
+      const history = await auditedRepo.getHistory(id)
+      expect(history[history.length - 1].operation).toBe("delete")
+      expect(history[history.length - 1].changes.phone.before).toMatch(/^enc:v1:k1:/)
+      expect(history[history.length - 1].changes.phone.after).toBeNull()
+    })
+
+    it("Should fail to read values encrypted with a different key", async () => {
+      const id = await customerRepo.createOnly(createCustomer("ann", "AB1"))
+      const otherRepo = new FirestoreCrudRepository<Customer>(getFirestoreForTesting(), "customer", {
+        encryption: {keyProvider: staticKeyProvider({k1: randomBytes(32)}, "k1"), fields: {phone: {}}},
+      })
+
+      const error = await otherRepo.getOne(id).catch(err => err)
+
+      expect(error).toBeInstanceOf(EncryptionError)
+      expect(error.field).toBe("phone")
+    })
+  })
+
+  describe("tenancy", () => {
+    interface Note extends Entity {
+      text:string,
+    }
+
+    let currentTenant:string|null = null
+    let noteRepo:FirestoreCrudRepository<Note>
+
+    beforeAll(() => {
+      noteRepo = new FirestoreCrudRepository<Note>(getFirestoreForTesting(), "note", {
+        tenancy: {tenantProvider: () => currentTenant},
+      })
+    })
+
+    beforeEach(async () => {
+      currentTenant = null
+      for (const tenant of ["acme", "globex"]) {
+        const notes = await noteRepo.forTenant(tenant).getMany([])
+        await noteRepo.forTenant(tenant).batchDelete(notes.map(note => note.id))
+      }
+    })
+
+    it("Should stamp the tenant on creates and only query the tenant's entities", async () => {
+      const acmeId = await noteRepo.forTenant("acme").createOnly({text: "a"})
+      currentTenant = "globex"
+      await noteRepo.batchCreate([{text: "b"}, {text: "c"}])
+
+      const globexNotes = await noteRepo.getMany([])
+      const acmeNotes = await noteRepo.forTenant("acme").getMany([])
+
+      expect(globexNotes.map(note => note.text).sort()).toEqual(["b", "c"])
+      expect(acmeNotes.map(note => note.id)).toEqual([acmeId])
+      expect(await noteRepo.count([])).toBe(2)
+      expect((await noteRepo.getFirebaseCollection().doc(acmeId).get()).get("tenantId")).toBe("acme")
+    })
+
+    it("Should reject reads and writes of another tenant's entities", async () => {
+      const acmeId = await noteRepo.forTenant("acme").createOnly({text: "a"})
+      const globexRepo = noteRepo.forTenant("globex")
+
+      await expect(globexRepo.getOne(acmeId)).rejects.toBeInstanceOf(TenantAccessError)
+      await expect(globexRepo.updateOnly(acmeId, {text: "changed"})).rejects.toBeInstanceOf(TenantAccessError)
+      await expect(globexRepo.delete(acmeId)).rejects.toBeInstanceOf(TenantAccessError)
+      await expect(globexRepo.batchUpdate([{id: acmeId, update: {text: "changed"}}])).rejects.toBeInstanceOf(TenantAccessError)
+      await expect(globexRepo.batchDelete([acmeId])).rejects.toBeInstanceOf(TenantAccessError)
+      await expect(globexRepo.upsert(acmeId, {text: "changed"})).rejects.toBeInstanceOf(TenantAccessError)
+
+      expect((await noteRepo.forTenant("acme").getOne(acmeId))?.text).toBe("a")
+    })
+
+    it("Should not overwrite another tenant's entity with the same ID", async () => {
+      const namedNoteRepo = new FirestoreCrudRepository<Note>(getFirestoreForTesting(), `named_note_${uuid()}`, {
+        idGenerator: create => create.text,
+        tenancy: {tenantProvider: () => currentTenant},
+      })
+      const acmeRepo = namedNoteRepo.forTenant("acme")
+      await acmeRepo.createOnly({text: "shared"})
+
+      await expect(namedNoteRepo.forTenant("globex").createOnly({text: "shared"})).rejects.toBeInstanceOf(TenantAccessError)
+      await expect(namedNoteRepo.forTenant("globex").batchCreate([{text: "shared"}])).rejects.toBeInstanceOf(AlreadyExistsError)
+
+      expect(await acmeRepo.createOnly({text: "shared"})).toBe("shared")
+      expect((await acmeRepo.getOne("shared"))?.text).toBe("shared")
+      expect((await namedNoteRepo.getFirebaseCollection().doc("shared").get()).get("tenantId")).toBe("acme")
+    })
+
+    it("Should scope subcollections to the tenant of their parent repository", async () => {
+      const subcollectionName = `comments_${uuid()}`
+      const acmeComments = noteRepo.forTenant("acme").subcollection<Note>("shared-parent", subcollectionName)
+      const globexComments = noteRepo.forTenant("globex").subcollection<Note>("shared-parent", subcollectionName, {})
+      const acmeId = await acmeComments.createOnly({text: "a"})
+      await globexComments.createOnly({text: "b"})
+
+      expect((await acmeComments.getMany([])).map(comment => comment.text)).toEqual(["a"])
+      expect((await globexComments.getMany([])).map(comment => comment.text)).toEqual(["b"])
+      await expect(globexComments.getOne(acmeId)).rejects.toBeInstanceOf(TenantAccessError)
+    })
+
+    it("Should only query the tenant's entities in a collection group", async () => {
+      const subcollectionName = `comments_${uuid()}`
+      const acmeId = await noteRepo.forTenant("acme").subcollection<Note>("acme-parent", subcollectionName).createOnly({text: "a"})
+      await noteRepo.forTenant("globex").subcollection<Note>("globex-parent", subcollectionName).createOnly({text: "b"})
+      const globexGroupRepo = new CollectionGroupRepository<Note>(getFirestoreForTesting(), subcollectionName, {
+        tenancy: {tenantProvider: () => "globex"},
+      })
+
+      expect((await globexGroupRepo.getMany([])).map(comment => comment.text)).toEqual(["b"])
+      expect(await globexGroupRepo.getManyById([acmeId])).toEqual([])
+      await expect(globexGroupRepo.getMany([], {startAfterId: acmeId})).rejects.toThrow()
+      await expect(new CollectionGroupRepository<Note>(getFirestoreForTesting(), subcollectionName, {tenancy: {}}).getMany([]))
+        .rejects.toBeInstanceOf(MissingTenantError)
+      expect(() => new CollectionGroupRepository<Note>(getFirestoreForTesting(), subcollectionName, {tenancy: {strategy: "collection"}}))
+        .toThrow()
+    })
+
+    it("Should fail without a tenant", async () => {
+      await expect(noteRepo.createOnly({text: "a"})).rejects.toBeInstanceOf(MissingTenantError)
+      await expect(noteRepo.getMany([])).rejects.toBeInstanceOf(MissingTenantError)
+    })
+
+    it("Should keep each tenant in its own collection", async () => {
+      const collectionRepo = new FirestoreCrudRepository<Note>(getFirestoreForTesting(), "note_per_tenant", {
+        tenancy: {strategy: "collection", collectionPath: (tenantId, collectionName) => `organisations/${tenantId}/${collectionName}`},
+      })
+      const acmeRepo = collectionRepo.forTenant("acme")
+      const id = await acmeRepo.createOnly({text: "a"})
+
+      expect(acmeRepo.getFirebaseCollection().path).toBe("organisations/acme/note_per_tenant")
+      expect((await acmeRepo.getMany([])).map(note => note.id)).toEqual([id])
+      expect(await collectionRepo.forTenant("globex").getOne(id)).toBeNull()
+      expect((await acmeRepo.getOne(id))).not.toHaveProperty("tenantId")
+      expect(() => collectionRepo.getFirebaseCollection()).toThrow(MissingTenantError)
+      await acmeRepo.delete(id)
+    })
+  })
+
+  describe("runInTransaction", () => {
+    interface Wallet extends Entity {
+      balance:number,
+    }
+
+    let walletRepo:FirestoreCrudRepository<Wallet>
+    let walletStats:Array<RepositoryOperationStats> = []
+
+    beforeAll(() => {
+      walletRepo = new FirestoreCrudRepository<Wallet>(
+        getFirestoreForTesting(),
+        "wallet",
+        {opStatHandler: stats => walletStats.push(stats)}
+      )
+    })
+
+    beforeEach(async () => {
+      await walletRepo.batchDelete((await walletRepo.getMany([])).map(wallet => wallet.id))
+      walletStats = []
+    })
+
+    it("Should read and write across repositories atomically", async () => {
+      const walletId = await walletRepo.createOnly({balance: 10})
+      walletStats = []
+
+      const greetingId = await runInTransaction(
+        {wallets: walletRepo, greetings: repo},
+        async ({wallets, greetings}) => {
+          const wallet = await wallets.getOne(walletId)
+          await wallets.updateOnly(walletId, {balance: wallet!.balance - 3})
+          return greetings.createOnly({greeting: "debited"})
+        }
+      )
+
+      expect((await walletRepo.getOne(walletId))?.balance).toBe(7)
+      expect((await repo.getOne(greetingId))?.greeting).toBe("debited")
+      expect(walletStats.length).toBe(2)
+      expect(walletStats[0]).toEqual({
+        collectionName: "wallet",
+        collectionPath: "wallet",
+        method: "runInTransaction",
+        numberOfReads: 2,
+        numberOfWrites: 1,
+        numberOfDeletes: 0,
+      })
+      expect(opStats.numberOfWrites).toBe(1)
+    })
+
+    it("Should write nothing if the callback throws", async () => {
+      const walletId = await walletRepo.createOnly({balance: 10})
+
+      await expect(runInTransaction(
+        {wallets: walletRepo, greetings: repo},
+        async ({wallets, greetings}) => {
+          await wallets.updateOnly(walletId, {balance: 0})
+          await greetings.createOnly({greeting: "never written"})
+          throw new Error("Insufficient funds")
+        }
+      )).rejects.toThrow("Insufficient funds")
+
+      expect((await walletRepo.getOne(walletId))?.balance).toBe(10)
+      expect(await repo.getMany([])).toEqual([])
+    })
+
+    it("Should query and delete in a transaction", async () => {
+      await walletRepo.batchCreate([{balance: 0}, {balance: 5}, {balance: 0}])
+
+      const deletedCount = await runInTransaction(
+        {wallets: walletRepo},
+        async ({wallets}) => {
+          const emptyWallets = await wallets.getMany([{field: "balance", operation: "==", value: 0}])
+          const results = await Promise.all(emptyWallets.map(wallet => wallets.delete(wallet.id)))
+          return results.filter(deleted => deleted).length
+        }
+      )
+
+      expect(deletedCount).toBe(2)
+      expect((await walletRepo.getMany([])).map(wallet => wallet.balance)).toEqual([5])
+    })
+  })
+
+  describe("subcollections", () => {
+    interface Order extends Entity {
+      item:string,
+    }
+
+    let orderGroupRepo:CollectionGroupRepository<Order>
+    let subcollectionStats:Array<RepositoryOperationStats> = []
+
+    beforeAll(() => {
+      orderGroupRepo = new CollectionGroupRepository<Order>(
+        getFirestoreForTesting(),
+        "orders",
+        {opStatHandler: stats => subcollectionStats.push(stats)}
+      )
+    })
+
+    beforeEach(async () => {
+      const orders = await orderGroupRepo.getFirebaseQuery().get()
+      await Promise.all(orders.docs.map(order => order.ref.delete()))
+      subcollectionStats = []
+    })
+
+    it("Should store entities under the parent document", async () => {
+      const parentId = await repo.createOnly({greeting: "hello1"})
+      const orderRepo = repo.subcollection<Order>(parentId, "orders")
+
+      const order = await orderRepo.createAndReturn({item: "book"})
+      await orderRepo.updateOnly(order.id, {item: "pen"})
+
+      expect(orderRepo.getFirebaseCollection().path).toBe(`${COLLECTION_NAME}/${parentId}/orders`)
+      expect((await orderRepo.getOne(order.id))?.item).toBe("pen")
+      expect((await orderRepo.getMany([])).length).toBe(1)
+      expect(await repo.subcollection<Order>(uuid(), "orders").getOne(order.id)).toBeNull()
+    })
+
+    it("Should tag stats with the full collection path", async () => {
+      const parentId = await repo.createOnly({greeting: "hello1"})
+      const statsByPath = new Array<RepositoryOperationStats>()
+      const orderRepo = repo.subcollection<Order>(parentId, "orders", {opStatHandler: stats => statsByPath.push(stats)})
+
+      await orderRepo.createOnly({item: "book"})
+
+      expect(statsByPath).toEqual([{
+        collectionName: "orders",
+        collectionPath: `${COLLECTION_NAME}/${parentId}/orders`,
+        numberOfWrites: 1,
+        method: "createOnly",
+        durationMillis: expect.any(Number),
+        resultSize: 1,
+        status: "ok",
+      }])
+    })
+
+    it("Should query every subcollection in a collection group", async () => {
+      const parentIds = await repo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}])
+      await repo.subcollection<Order>(parentIds[0], "orders").batchCreate([{item: "book"}, {item: "pen"}])
+      await repo.subcollection<Order>(parentIds[1], "orders").createOnly({item: "book"})
+
+      const books = await orderGroupRepo.getMany([{field: "item", operation: "==", value: "book"}])
+
+      expect(books.length).toBe(2)
+      expect(books.map(book => book.parentPath).sort()).toEqual(
+        parentIds.map(parentId => `${COLLECTION_NAME}/${parentId}`).sort()
+      )
+      expect(subcollectionStats).toEqual([expect.objectContaining({collectionName: "orders", method: "getMany", numberOfReads: 2, resultSize: 2})])
+    })
+
+    it("Should iterate through a collection group", async () => {
+      const parentIds = await repo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}])
+      await repo.subcollection<Order>(parentIds[0], "orders").batchCreate([{item: "book"}, {item: "pen"}])
+      await repo.subcollection<Order>(parentIds[1], "orders").batchCreate([{item: "cup"}, {item: "mug"}])
+
+      const items = new Array<string>()
+      const result = await orderGroupRepo.iterator()
+        .batchSize(1)
+        .sort([{field: "item", order: SortOrder.ASC}])
+        .iterate(async order => {
+          items.push(order.item)
+        })
+
+      expect(items).toEqual(["book", "cup", "mug", "pen"])
+      expect(result.finished).toBe(true)
+    })
+  })
+
+  describe("watchOne", () => {
+    it("Should deliver the entity and each change to it", async () => {
+      const id = await repo.createOnly({greeting: "hello1"})
+      const received = new Array<HelloWorld|null>()
+      const errors = new Array<any>()
+
+      const unsubscribe = repo.watchOne(id, entity => received.push(entity), error => errors.push(error))
+      await waitFor(() => received.length === 1)
+      await repo.updateOnly(id, {greeting: "hello2"})
+      await waitFor(() => received.length === 2)
+      await repo.delete(id)
+      await waitFor(() => received.length === 3)
+      unsubscribe()
+
+      expect(received[0]?.greeting).toBe("hello1")
+      expect(received[1]?.greeting).toBe("hello2")
+      expect(received[2]).toBeNull()
+      expect(errors).toEqual([])
+    })
+
+    it("Should stop delivering changes once unsubscribed", async () => {
+      const id = await repo.createOnly({greeting: "hello1"})
+      const received = new Array<HelloWorld|null>()
+      const errors = new Array<any>()
+
+      const unsubscribe = repo.watchOne(id, entity => received.push(entity), error => errors.push(error))
+      await waitFor(() => received.length === 1)
+      unsubscribe()
+      await repo.updateOnly(id, {greeting: "hello2"})
+      await sleep(50)
+
+      expect(received.length).toBe(1)
+      expect(errors).toEqual([])
+    })
+  })
+
+  describe("watchMany", () => {
+    it("Should deliver added, modified and removed entities", async () => {
+      const ids = await repo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}])
+      const received = new Array<EntityChanges<HelloWorld>>()
+      const errors = new Array<any>()
+      opStats.numberOfReads = 0
+
+      const unsubscribe = repo.watchMany(
+        [{field: "greeting", operation: "in", value: ["hello1", "hello2", "hello3"]}],
+        null,
+        changes => received.push(changes),
+        error => errors.push(error),
+      )
+      await waitFor(() => received.length === 1)
+      await repo.createOnly({greeting: "hello3"})
+      await waitFor(() => received.length === 2)
+      await repo.batchUpdate([{id: ids[0], update: {greeting: "hello3"}}, {id: ids[1], update: {greeting: "goodbye"}}])
+      await waitFor(() => received.length === 3)
+      unsubscribe()
+
+      expect(received[0].entities.length).toBe(2)
+      expect(received[0].added.length).toBe(2)
+      expect(received[1].added.map(ent => ent.greeting)).toEqual(["hello3"])
+      expect(received[1].entities.length).toBe(3)
+      expect(received[2].modified.map(ent => ent.id)).toEqual([ids[0]])
+      expect(received[2].removed.map(ent => ent.id)).toEqual([ids[1]])
+      expect(received[2].entities.length).toBe(2)
+      expect(opStats.numberOfReads).toBe(4)
+      expect(errors).toEqual([])
+    })
+
+    it("Should forward errors to the error handler", async () => {
+      const errors = new Array<any>()
+
+      const unsubscribe = repo.watchMany(
+        [],
+        {startAfterId: uuid()},
+        () => {},
+        error => errors.push(error),
+      )
+      await waitFor(() => errors.length === 1)
+      unsubscribe()
+
+      expect(errors[0]).toBeInstanceOf(Error)
+    })
+  })
+
+  describe("query", () => {
+    interface Person extends Entity {
+      name:string,
+      age:number,
+      tags:Array<string>,
+      address:{city:string, postcode?:string},
+    }
+
+    let personRepo:FirestoreCrudRepository<Person>
+    let personReads = 0
+
+    beforeAll(() => {
+      personRepo = new FirestoreCrudRepository<Person>(getFirestoreForTesting(), "person", {
+        idGenerator: create => create.name,
+        opStatHandler: stats => {
+          personReads += stats.numberOfReads ?? 0
+        },
+      })
+    })
+
+    beforeEach(async () => {
+      await personRepo.batchDelete((await personRepo.getMany([])).map(person => person.id))
+      await personRepo.batchCreate([
+        {name: "ann", age: 17, tags: ["student"], address: {city: "Leeds"}},
+        {name: "bob", age: 34, tags: ["admin", "staff"], address: {city: "York"}},
+        {name: "cat", age: 51, tags: ["staff"], address: {city: "Leeds", postcode: "LS1"}},
+        {name: "dan", age: 12, tags: [], address: {city: "Hull"}},
+      ])
+      personReads = 0
+    })
+
+    it("Should AND filters and OR groups started with orWhere", async () => {
+      const people = await personRepo.query()
+        .where("age", ">=", 18)
+        .where("address.city", "==", "Leeds")
+        .orWhere("tags", "array-contains", "student")
+        .orderBy("age")
+        .get()
+
+      expect(people.map(person => person.name)).toEqual(["ann", "cat"])
+    })
+
+    it("Should support or and and composite filters", async () => {
+      const people = await personRepo.query()
+        .where(Filter.or(
+          Filter.and(Filter.where("age", "<", 15), Filter.where("address.city", "==", "Hull")),
+          Filter.where("tags", "array-contains-any", ["admin"]),
+        ))
+        .orderBy("age", SortOrder.DESC)
+        .limit(1)
+        .get()
+
+      expect(people.map(person => person.name)).toEqual(["bob"])
+      expect(await personRepo.getMany([Filter.or(Filter.where("name", "==", "ann"), Filter.where("name", "==", "dan"))]))
+        .toHaveLength(2)
+    })
+
+    it("Should read pages, counts and iterators through the repository", async () => {
+      const query = personRepo.query().where("age", ">", 10).orderBy("age").limit(3)
+
+      const firstPage = await query.getPage()
+      const secondPage = await query.getPage(firstPage.nextCursor)
+      const iterated = new Array<string>()
+      await query.iterator().iterate(async person => {
+        iterated.push(person.name)
+      })
+
+      expect(firstPage.items.map(person => person.name)).toEqual(["dan", "ann", "bob"])
+      expect(secondPage.items.map(person => person.name)).toEqual(["cat"])
+      expect(await query.count()).toBe(4)
+      expect(iterated).toEqual(["dan", "ann", "bob", "cat"])
+    })
+
+    it("Should reject queries Firestore would reject before reading", async () => {
+      const tooManyValues = new Array<string>()
+      for (let i = 0; i < 31; i++) {
+        tooManyValues.push(`name${i}`)
+      }
+
+      await expect(personRepo.query().where("name", "in", tooManyValues).get()).rejects.toThrow(InvalidQueryError)
+      await expect(personRepo.query().where("age", ">", 18).orderBy("name").get()).rejects.toThrow(InvalidQueryError)
+      await expect(personRepo.query().where("age", "not-in", [1]).where("name", "!=", "ann").get()).rejects.toThrow(InvalidQueryError)
+      await expect(personRepo.query().where("name", "in", []).count()).rejects.toThrow(InvalidQueryError)
+      await expect(personRepo.query().limit(0).get()).rejects.toThrow(InvalidQueryError)
+      expect(personReads).toBe(0)
+    })
+  })
+
+  describe("getPage", () => {
+    const createGreetings = async (count:number) => {
+      const creates = new Array<Create<HelloWorld>>()
+      for (let i = 1; i <= count; i++) {
+        creates.push({greeting: `hello${i}`})
+      }
+      await repo.batchCreate(creates)
+    }
+
+    it("Should page forwards and backwards through sorted results", async () => {
+      await createGreetings(5)
+      const sort = [{field: "greeting", order: SortOrder.ASC}]
+
+      const firstPage = await repo.getPage([], {limit: 2, sort})
+      const secondPage = await repo.getPage([], {limit: 2, sort, cursor: firstPage.nextCursor})
+      const thirdPage = await repo.getPage([], {limit: 2, sort, cursor: secondPage.nextCursor})
+      const backToSecondPage = await repo.getPage([], {limit: 2, sort, cursor: thirdPage.prevCursor})
+      const backToFirstPage = await repo.getPage([], {limit: 2, sort, cursor: backToSecondPage.prevCursor})
+
+      expect(firstPage.items.map(ent => ent.greeting)).toEqual(["hello1", "hello2"])
+      expect(firstPage.prevCursor).toBeNull()
+      expect(secondPage.items.map(ent => ent.greeting)).toEqual(["hello3", "hello4"])
+      expect(thirdPage.items.map(ent => ent.greeting)).toEqual(["hello5"])
+      expect(thirdPage.nextCursor).toBeNull()
+      expect(backToSecondPage.items.map(ent => ent.greeting)).toEqual(["hello3", "hello4"])
+      expect(backToFirstPage.items.map(ent => ent.greeting)).toEqual(["hello1", "hello2"])
+      expect(backToFirstPage.prevCursor).toBeNull()
+      expect(backToFirstPage.nextCursor).not.toBeNull()
+    })
+
+    it("Should page through descending sorts with filters", async () => {
+      await createGreetings(4)
+      const queries = [{field: "greeting", operation: "!=", value: "hello2"} as const]
+      const sort = [{field: "greeting", order: SortOrder.DESC}]
+
+      const firstPage = await repo.getPage(queries, {limit: 2, sort})
+      const secondPage = await repo.getPage(queries, {limit: 2, sort, cursor: firstPage.nextCursor})
+
+      expect(firstPage.items.map(ent => ent.greeting)).toEqual(["hello4", "hello3"])
+      expect(secondPage.items.map(ent => ent.greeting)).toEqual(["hello1"])
+    })
+
+    it("Should not read the cursor document and should work if it has been deleted", async () => {
+      await createGreetings(3)
+      const sort = [{field: "greeting", order: SortOrder.ASC}]
+      const firstPage = await repo.getPage([], {limit: 1, sort})
+      await repo.delete(firstPage.items[0].id)
+      opStats.numberOfReads = 0
+
+      const secondPage = await repo.getPage([], {limit: 1, sort, cursor: firstPage.nextCursor})
+
+      expect(secondPage.items.map(ent => ent.greeting)).toEqual(["hello2"])
+      expect(opStats.numberOfReads).toBe(2)
+    })
+
+    it("Should reject cursors created for a different sort", async () => {
+      await createGreetings(3)
+      const firstPage = await repo.getPage([], {limit: 1, sort: [{field: "greeting", order: SortOrder.ASC}]})
+
+      await expect(repo.getPage([], {limit: 1, cursor: firstPage.nextCursor}))
+        .rejects.toBeInstanceOf(InvalidCursorError)
+      await expect(repo.getPage([], {limit: 1, cursor: "not a cursor"}))
+        .rejects.toBeInstanceOf(InvalidCursorError)
+    })
+  })
+
+  describe("aggregate", () => {
+    interface Order extends Entity {
+      customer:string,
+      total:number,
+    }
+
+    let orderRepo:FirestoreCrudRepository<Order>
+    let orderStats:Array<RepositoryOperationStats> = []
+
+    beforeAll(() => {
+      orderRepo = new FirestoreCrudRepository<Order>(
+        getFirestoreForTesting(),
+        "order",
+        {softDelete: true, opStatHandler: stats => orderStats.push(stats)}
+      )
+    })
+
+    beforeEach(async () => {
+      const orders = await orderRepo.getMany([], {includeDeleted: true})
+      await orderRepo.batchDelete(orders.map(order => order.id))
+      await orderRepo.purgeDeleted(new Date(Date.now() + 1000))
+      orderStats = []
+    })
+
+    it("Should count, sum and average matching entities", async () => {
+      await orderRepo.batchCreate([
+        {customer: "alice", total: 10},
+        {customer: "alice", total: 20},
+        {customer: "bob", total: 5},
+      ])
+      const queries = [{field: "customer", operation: "==", value: "alice"} as const]
+
+      expect(await orderRepo.count(queries)).toBe(2)
+      expect(await orderRepo.sum(queries, "total")).toBe(30)
+      expect(await orderRepo.average(queries, "total")).toBe(15)
+      expect(await orderRepo.average([{field: "customer", operation: "==", value: "carol"}], "total")).toBeNull()
+    })
+
+    it("Should run several aggregations in one query", async () => {
+      await orderRepo.batchCreate([{customer: "alice", total: 10}, {customer: "bob", total: 30}])
+
+      const result = await orderRepo.aggregate([], {
+        orders: {operation: 'count'},
+        revenue: {operation: 'sum', field: "total"},
+        averageOrder: {operation: 'average', field: "total"},
+      })
+
+      expect(result).toEqual({orders: 2, revenue: 40, averageOrder: 20})
+    })
+
+    it("Should exclude soft deleted entities unless included", async () => {
+      const ids = await orderRepo.batchCreate([{customer: "alice", total: 10}, {customer: "bob", total: 30}])
+      await orderRepo.delete(ids[0])
+
+      expect(await orderRepo.sum([], "total")).toBe(30)
+      expect(await orderRepo.sum([], "total", {includeDeleted: true})).toBe(40)
+    })
+
+    it("Should report one read per thousand matched entries", async () => {
+      const creates = new Array<Create<Order>>()
+      for (let i = 0; i < 1001; i++) {
+        creates.push({customer: "alice", total: i})
+      }
+      await orderRepo.batchCreate(creates)
+      orderStats = []
+
+      await orderRepo.count([])
+      await orderRepo.count([{field: "customer", operation: "==", value: "bob"}])
+
+      expect(orderStats.map(stats => stats.numberOfReads)).toEqual([2, 1])
+    })
+  })
+
+  describe("cache", () => {
+    let cachedRepo:FirestoreCrudRepository<HelloWorld>
+    let cacheStats:Array<RepositoryOperationStats> = []
+    let now = 0
+    const total = (field:"numberOfReads"|"numberOfCacheHits"|"numberOfCacheMisses") =>
+      cacheStats.reduce((sum, stats) => sum + (stats[field] ?? 0), 0)
+
+    beforeEach(() => {
+      now = 0
+      cachedRepo = new FirestoreCrudRepository<HelloWorld>(
+        getFirestoreForTesting(),
+        COLLECTION_NAME,
+        {
+          cache: {store: new LruCacheStore<HelloWorld>(100, () => now), ttlMillis: 1000},
+          opStatHandler: stats => cacheStats.push(stats),
+        }
+      )
+      cacheStats = []
+    })
+
+    it("Should read an entity from Firestore once and then from the cache", async () => {
+      const id = await repo.createOnly({greeting: "hello1"})
+
+      const first = await cachedRepo.getOne(id)
+      const second = await cachedRepo.getOne(id)
+
+      expect(second).toEqual(first)
+      expect(total("numberOfReads")).toBe(1)
+      expect(total("numberOfCacheMisses")).toBe(1)
+      expect(total("numberOfCacheHits")).toBe(1)
+    })
+
+    it("Should not let changes to nested fields of an entity leak into the cache", async () => {
+      interface Customer extends Entity {
+        address:{city:string},
+        tags:Array<string>,
+      }
+      const customerRepo = new FirestoreCrudRepository<Customer>(getFirestoreForTesting(), "cached_customer", {cache: {}})
+      const id = await customerRepo.createOnly({address: {city: "Leeds"}, tags: ["a"]})
+
+      const missed = await customerRepo.getOne(id)
+      missed!.address.city = "Paris"
+      const hit = await customerRepo.getOne(id)
+      hit!.address.city = "Rome"
+      hit!.tags.push("b")
+      const cached = await customerRepo.getOne(id)
+
+      expect(cached?.address.city).toBe("Leeds")
+      expect(cached?.tags).toEqual(["a"])
+      expect(cached?.createdAt).toBeInstanceOf(Timestamp)
+    })
+
+    it("Should only read the ids that are not cached", async () => {
+      const ids = await repo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}, {greeting: "hello3"}])
+      await cachedRepo.getOne(ids[1])
+      cacheStats = []
+
+      const entities = await cachedRepo.getManyById(ids)
+
+      expect(entities.map(ent => ent.greeting)).toEqual(["hello1", "hello2", "hello3"])
+      expect(total("numberOfReads")).toBe(2)
+      expect(total("numberOfCacheHits")).toBe(1)
+      expect(total("numberOfCacheMisses")).toBe(2)
+    })
+
+    it("Should read from Firestore again once an entry expires", async () => {
+      const id = await repo.createOnly({greeting: "hello1"})
+      await cachedRepo.getOne(id)
+      await repo.updateOnly(id, {greeting: "hello2"})
+
+      expect((await cachedRepo.getOne(id))?.greeting).toBe("hello1")
+      now = 1000
+      expect((await cachedRepo.getOne(id))?.greeting).toBe("hello2")
+    })
+
+    it("Should invalidate entries that are updated, merged or deleted", async () => {
+      const ids = await repo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}, {greeting: "hello3"}])
+      await cachedRepo.getManyById(ids)
+
+      await cachedRepo.updateOnly(ids[0], {greeting: "updated"})
+      await cachedRepo.mergeOnly(ids[1], {greeting: "merged"})
+      await cachedRepo.batchUpdate([{id: ids[2], update: {greeting: "batch updated"}}])
+      expect((await cachedRepo.getManyById(ids)).map(ent => ent.greeting)).toEqual(["updated", "merged", "batch updated"])
+
+      await cachedRepo.delete(ids[0])
+      await cachedRepo.batchDelete([ids[1], ids[2]])
+      expect(await cachedRepo.getManyById(ids)).toEqual([])
+    })
+
+    it("Should invalidate entries written in a transaction once it commits", async () => {
+      const id = await repo.createOnly({greeting: "hello1"})
+      await cachedRepo.getOne(id)
+
+      await runInTransaction({greetings: cachedRepo}, async ({greetings}) => {
+        await greetings.updateOnly(id, {greeting: "hello2"})
+      })
+
+      expect((await cachedRepo.getOne(id))?.greeting).toBe("hello2")
+    })
+
+    it("Should not let changes to a returned entity leak into the cache", async () => {
+      const id = await repo.createOnly({greeting: "hello1"})
+      const entity = await cachedRepo.getOne(id)
+      entity!.greeting = "changed"
+
+      expect((await cachedRepo.getOne(id))?.greeting).toBe("hello1")
+    })
+
+    it("Should evict the least recently used entry when the store is full", async () => {
+      const store = new LruCacheStore<string>(2)
+      await store.set("a", "A", 1000)
+      await store.set("b", "B", 1000)
+      await store.get("a")
+      await store.set("c", "C", 1000)
+
+      expect(await store.get("a")).toBe("A")
+      expect(await store.get("b")).toBeUndefined()
+      expect(await store.get("c")).toBe("C")
+    })
+  })
+
+  describe("hooks", () => {
+    let hooksRepo:FirestoreCrudRepository<HelloWorld>
+    let calls:Array<string> = []
+
+    beforeEach(() => {
+      hooksRepo = new FirestoreCrudRepository<HelloWorld>(getFirestoreForTesting(), COLLECTION_NAME)
+      calls = []
+    })
+
+    it("Should let before hooks change the payload", async () => {
+      hooksRepo.addHooks({
+        beforeCreate: create => ({...create, greeting: create.greeting.toUpperCase()}),
+        beforeUpdate: (id, update) => ({...update, greeting: `${update.greeting}!`}),
+      })
+
+      const id = await hooksRepo.createOnly({greeting: "hello"})
+      const ids = await hooksRepo.batchCreate([{greeting: "hi"}])
+      await hooksRepo.batchUpdate([{id: ids[0], update: {greeting: "hey"}}])
+
+      expect((await repo.getOne(id))?.greeting).toBe("HELLO")
+      expect((await repo.getOne(ids[0]))?.greeting).toBe("hey!")
+    })
+
+    it("Should stop the operation when a before hook throws", async () => {
+      const id = await repo.createOnly({greeting: "hello"})
+      hooksRepo.addHooks({
+        beforeUpdate: () => {
+          throw new Error("Updates are not allowed")
+        },
+        beforeDelete: () => {
+          throw new Error("Deletes are not allowed")
+        },
+      })
+
+      await expect(hooksRepo.updateOnly(id, {greeting: "hello2"})).rejects.toThrow("Updates are not allowed")
+      await expect(hooksRepo.batchUpdate([{id, update: {greeting: "hello2"}}])).rejects.toThrow("Updates are not allowed")
+      await expect(hooksRepo.batchDelete([id])).rejects.toThrow("Deletes are not allowed")
+
+      expect(await repo.getMany([])).toEqual([await repo.getOne(id)])
+      expect((await repo.getOne(id))?.greeting).toBe("hello")
+    })
+
+    it("Should run hooks in the order they were registered, before hooks before the write and after hooks after it", async () => {
+      hooksRepo.addHooks({
+        beforeCreate: () => {
+          calls.push("first beforeCreate")
+        },
+        afterCreate: () => {
+          calls.push("first afterCreate")
+        },
+      })
+      hooksRepo.addHooks({
+        beforeCreate: async () => {
+          calls.push(`second beforeCreate, ${(await repo.getMany([])).length} entities`)
+        },
+        afterCreate: async () => {
+          calls.push(`second afterCreate, ${(await repo.getMany([])).length} entities`)
+        },
+      })
+
+      await hooksRepo.createOnly({greeting: "hello"})
+
+      expect(calls).toEqual([
+        "first beforeCreate",
+        "second beforeCreate, 0 entities",
+        "first afterCreate",
+        "second afterCreate, 1 entities",
+      ])
+    })
+
+    it("Should run hooks for each entity in batch methods", async () => {
+      hooksRepo.addHooks({
+        afterCreate: (id, create) => {
+          calls.push(`created ${create.greeting}`)
+        },
+        afterUpdate: (id, update) => {
+          calls.push(`updated ${update.greeting}`)
+        },
+        beforeDelete: () => {
+          calls.push("deleting")
+        },
+        afterDelete: () => {
+          calls.push("deleted")
+        },
+      })
+
+      const ids = await hooksRepo.batchCreate([{greeting: "hello1"}, {greeting: "hello2"}])
+      await hooksRepo.batchUpdate(ids.map((id, index) => ({id, update: {greeting: `hi${index + 1}`}})))
+      await hooksRepo.batchDelete(ids)
+
+      expect(calls).toEqual([
+        "created hello1", "created hello2",
+        "updated hi1", "updated hi2",
+        "deleting", "deleting", "deleted", "deleted",
+      ])
+    })
+
+    it("Should pass read entities through afterRead", async () => {
+      const id = await repo.createOnly({greeting: "hello"})
+      hooksRepo.addHooks({afterRead: entity => ({...entity, greeting: `${entity.greeting} world`})})
+
+      expect((await hooksRepo.getOne(id))?.greeting).toBe("hello world")
+      expect((await hooksRepo.getManyById([id]))[0].greeting).toBe("hello world")
+      expect((await hooksRepo.getMany([]))[0].greeting).toBe("hello world")
+    })
+
+    it("Should pass watched entities through afterRead in the order they changed", async () => {
+      const id = await repo.createOnly({greeting: "hello"})
+      let reads = 0
+      hooksRepo.addHooks({
+        afterRead: async entity => {
+          reads++
+          // the first read is slower, so a later change would be delivered first if deliveries were not kept in order
+          await sleep(entity.greeting === "hello" ? 20 : 0)
+          return {...entity, greeting: `${entity.greeting} world`}
+        },
+      })
+      const watchedOne = new Array<string|undefined>()
+      const watchedMany = new Array<Array<string>>()
+      const errors = new Array<any>()
+
+      const unsubscribeOne = hooksRepo.watchOne(id, entity => watchedOne.push(entity?.greeting), error => errors.push(error))
+      const unsubscribeMany = hooksRepo.watchMany([], null, changes => watchedMany.push(changes.entities.map(ent => ent.greeting)), error => errors.push(error))
+      await waitFor(() => reads === 2)
+      await repo.updateOnly(id, {greeting: "goodbye"})
+      await waitFor(() => watchedOne.length === 2 && watchedMany.length === 2)
+      unsubscribeOne()
+      unsubscribeMany()
+
+      expect(watchedOne).toEqual(["hello world", "goodbye world"])
+      expect(watchedMany).toEqual([["hello world"], ["goodbye world"]])
+      expect(errors).toEqual([])
+    })
+
+    it("Should run after hooks for transactional writes once the transaction commits", async () => {
+      const id = await repo.createOnly({greeting: "hello"})
+      hooksRepo.addHooks({
+        beforeUpdate: () => {
+          calls.push("beforeUpdate")
+        },
+        afterUpdate: () => {
+          calls.push("afterUpdate")
+        },
+      })
+
+      await runInTransaction({greetings: hooksRepo}, async ({greetings}) => {
+        await greetings.updateOnly(id, {greeting: "hello2"})
+        calls.push("callback finished")
+      })
+
+      expect(calls).toEqual(["beforeUpdate", "callback finished", "afterUpdate"])
+    })
+
+    it("Should stop running hooks once they are removed", async () => {
+      const removeHooks = hooksRepo.addHooks({
+        beforeCreate: () => {
+          calls.push("beforeCreate")
+        },
+      })
+
+      await hooksRepo.createOnly({greeting: "hello1"})
+      removeHooks()
+      await hooksRepo.createOnly({greeting: "hello2"})
+
+      expect(calls).toEqual(["beforeCreate"])
+    })
+  })
+
+  describe("audit", () => {
+    interface Account extends Entity {
+      owner:string,
+      balance:number,
+    }
+
+    let accountRepo:FirestoreCrudRepository<Account>
+    let accountStats:Array<RepositoryOperationStats> = []
+    let actor:string|null = null
+
+    beforeAll(() => {
+      accountRepo = new FirestoreCrudRepository<Account>(
+        getFirestoreForTesting(),
+        "account",
+        {
+          softDelete: true,
+          audit: {actorProvider: () => actor},
+          opStatHandler: stats => accountStats.push(stats),
+        }
+      )
+    })
+
+    beforeEach(async () => {
+      const accounts = await accountRepo.getMany([], {includeDeleted: true})
+      await accountRepo.purgeDeleted(new Date(Date.now() + 1000))
+      await accountRepo.batchDelete(accounts.map(account => account.id))
+      await accountRepo.purgeDeleted(new Date(Date.now() + 1000))
+      accountStats = []
+      actor = "user-1"
+    })
+
+    it("Should record each change with the fields that changed and who changed them", async () => {
+      const id = await accountRepo.createOnly({owner: "alice", balance: 10})
+      actor = "user-2"
+      await accountRepo.updateOnly(id, {balance: 20})
+      await accountRepo.mergeOnly(id, {owner: "bob"})
+      actor = null
+      await accountRepo.delete(id)
+
+      const history = await accountRepo.getHistory(id)
+
+      expect(history.map(record => [record.operation, record.actor])).toEqual([
+        ["create", "user-1"],
+        ["update", "user-2"],
+        ["merge", "user-2"],
+        ["delete", null],
+      ])
+      expect(history[0].changes).toEqual({
+        owner: {before: null, after: "alice"},
+        balance: {before: null, after: 10},
+      })
+      expect(history[1].changes).toEqual({balance: {before: 10, after: 20}})
+      expect(history[2].changes).toEqual({owner: {before: "alice", after: "bob"}})
+      expect(history[3].changes.deletedAt.before).toBeNull()
+      expect(history[3].changes.deletedAt.after.toMillis()).toBe(history[3].timestamp.toMillis())
+      expect(history.every(record => record.documentId === id)).toBe(true)
+    })
+
+    it("Should record the value resolved from field value sentinels", async () => {
+      const id = await accountRepo.createOnly({owner: "alice", balance: 10})
+
+      // @ts-ignore
+      await accountRepo.updateOnly(id, {balance: FieldValue.increment(5)})
+
+      const history = await accountRepo.getHistory(id)
+      expect(history[1].changes).toEqual({balance: {before: 10, after: 15}})
+    })
+
+    it("Should record changes made by batch methods and transactions", async () => {
+      const ids = await accountRepo.batchCreate([{owner: "alice", balance: 1}, {owner: "bob", balance: 2}])
+      await accountRepo.batchUpdate(ids.map(id => ({id, update: {balance: 5}})))
+      await runInTransaction({accounts: accountRepo}, async ({accounts}) => {
+        await accounts.updateOnly(ids[0], {balance: 6})
+      })
+      await accountRepo.batchDelete(ids)
+      await accountRepo.restore(ids[1])
+
+      const firstHistory = await accountRepo.getHistory(ids[0])
+      const secondHistory = await accountRepo.getHistory(ids[1])
+
+      expect(firstHistory.map(record => record.operation)).toEqual(["create", "update", "update", "delete"])
+      expect(firstHistory[2].changes).toEqual({balance: {before: 5, after: 6}})
+      expect(secondHistory.map(record => record.operation)).toEqual(["create", "update", "delete", "restore"])
+      expect(secondHistory[3].changes.deletedAt.after).toBeNull()
+    })
+
+    it("Should write the history record in the same batch as the change", async () => {
+      const id = await accountRepo.createOnly({owner: "alice", balance: 10})
+      accountStats = []
+
+      await expect(accountRepo.batchUpdate([
+        {id, update: {balance: 20}},
+        {id: "missing", update: {balance: 20}},
+      ])).rejects.toThrow()
+      await accountRepo.updateOnly(id, {balance: 30})
+
+      const history = await accountRepo.getHistory(id)
+      expect(history.map(record => record.changes.balance?.after)).toEqual([10, 30])
+      expect(accountStats.reduce((total, stats) => total + (stats.numberOfWrites ?? 0), 0)).toBe(2)
+    })
+  })
+
+  describe("bulk writes", () => {
+    interface Item extends Entity {
+      name:string,
+      quantity:number,
+    }
+
+    let inMemoryFirestore:InMemoryFirestore
+    let itemRepo:FirestoreCrudRepository<Item>
+    let itemStats:{numberOfWrites:number, numberOfDeletes:number}
+
+    // failures are injected into the in-memory backend, so these tests do not run against the emulator
+    beforeEach(() => {
+      inMemoryFirestore = new InMemoryFirestore()
+      itemStats = {numberOfWrites: 0, numberOfDeletes: 0}
+      itemRepo = new FirestoreCrudRepository<Item>(inMemoryFirestore, "item", {
+        idGenerator: create => create.name,
+        opStatHandler: stats => {
+          itemStats.numberOfWrites += stats.numberOfWrites ?? 0
+          itemStats.numberOfDeletes += stats.numberOfDeletes ?? 0
+        },
+      })
+    })
+
+    it("Should retry transient errors and report the documents that failed", async () => {
+      inMemoryFirestore.failWrites("item/a", StatusCode.UNAVAILABLE, StatusCode.UNAVAILABLE)
+      inMemoryFirestore.failWrites("item/b", StatusCode.FAILED_PRECONDITION)
+
+      const result = await itemRepo.bulkCreate([
+        {name: "a", quantity: 1},
+        {name: "b", quantity: 2},
+        {name: "c", quantity: 3},
+      ])
+
+      expect(result.succeeded).toEqual(["a", "c"])
+      expect(result.failed.map(failure => failure.id)).toEqual(["b"])
+      expect(result.failed[0].error.code).toBe(StatusCode.FAILED_PRECONDITION)
+      expect((await itemRepo.getMany([])).map(item => item.id).sort()).toEqual(["a", "c"])
+      expect(itemStats.numberOfWrites).toBe(2)
+    })
+
+    it("Should give up on a transient error after the maximum number of attempts", async () => {
+      inMemoryFirestore.failWrites("item/a", StatusCode.UNAVAILABLE, StatusCode.UNAVAILABLE)
+
+      const result = await itemRepo.bulkCreate([{name: "a", quantity: 1}], {maxAttempts: 2})
+
+      expect(result.succeeded).toEqual([])
+      expect(result.failed[0].error.failedAttempts).toBe(2)
+    })
+
+    it("Should write more documents than are queued at once", async () => {
+      const creates = new Array<Create<Item>>()
+      for (let i = 0; i < 25; i++) {
+        creates.push({name: `item${i}`, quantity: i})
+      }
+
+      const result = await itemRepo.bulkCreate(creates, {maxPendingWrites: 10})
+
+      expect(result.succeeded.length).toBe(25)
+      expect(await itemRepo.count([])).toBe(25)
+    })
+
+    it("Should update the documents that exist", async () => {
+      await itemRepo.batchCreate([{name: "a", quantity: 1}, {name: "b", quantity: 2}])
+
+      const result = await itemRepo.bulkUpdate([
+        {id: "a", update: {quantity: 10}},
+        {id: "missing", update: {quantity: 20}},
+        {id: "b", update: {quantity: 30}},
+      ])
+
+      expect(result.succeeded).toEqual(["a", "b"])
+      expect(result.failed.map(failure => failure.id)).toEqual(["missing"])
+      expect((await itemRepo.getOne("b"))?.quantity).toBe(30)
+      await expect(itemRepo.bulkUpdate([{id: "a", update: {quantity: 1}, expectedVersion: 1}])).rejects.toThrow()
+    })
+
+    it("Should delete documents and count missing ones as deleted", async () => {
+      await itemRepo.batchCreate([{name: "a", quantity: 1}, {name: "b", quantity: 2}, {name: "c", quantity: 3}])
+      inMemoryFirestore.failWrites("item/c", StatusCode.PERMISSION_DENIED)
+
+      const result = await itemRepo.bulkDelete(["a", "missing", "c", "b"])
+
+      expect(result.succeeded).toEqual(["a", "missing", "b"])
+      expect(result.failed.map(failure => failure.id)).toEqual(["c"])
+      expect((await itemRepo.getMany([])).map(item => item.id)).toEqual(["c"])
+    })
+
+    it("Should batch delete more than one batch of documents", async () => {
+      const creates = new Array<Create<Item>>()
+      for (let i = 0; i < 501; i++) {
+        creates.push({name: `item${i}`, quantity: i})
+      }
+      const ids = await itemRepo.batchCreate(creates)
+
+      expect(await itemRepo.batchDelete(ids)).toBe(501)
+      expect(await itemRepo.count([])).toBe(0)
+    })
+  })
+
+  describe("errors and retries", () => {
+    interface Account extends Entity {
+      owner:string,
+      balance:number,
+    }
+
+    let inMemoryFirestore:InMemoryFirestore
+    let accountRepo:FirestoreCrudRepository<Account>
+    let numberOfRetries:number
+
+    // failures are injected into the in-memory backend, so these tests do not run against the emulator
+    beforeEach(() => {
+      inMemoryFirestore = new InMemoryFirestore()
+      numberOfRetries = 0
+      accountRepo = new FirestoreCrudRepository<Account>(inMemoryFirestore, "account", {
+        idGenerator: create => create.owner,
+        retry: {maxAttempts: 3, initialDelayMillis: 1},
+        opStatHandler: stats => {
+          numberOfRetries += stats.numberOfRetries ?? 0
+        },
+      })
+    })
+
+    it("Should throw an AlreadyExistsError when batch creating an entity that exists", async () => {
+      await accountRepo.createOnly({owner: "a", balance: 1})
+
+      const error = await accountRepo.batchCreate([{owner: "a", balance: 2}, {owner: "b", balance: 2}]).catch(caught => caught)
+
+      expect(error).toBeInstanceOf(AlreadyExistsError)
+      expect(error).toBeInstanceOf(RepositoryError)
+      expect(error).toMatchObject({collectionName: "account", ids: ["a", "b"], operation: "batchCreate"})
+      expect(error.cause.code).toBe(StatusCode.ALREADY_EXISTS)
+    })
+
+    it("Should throw an EntityNotFoundError when updating a missing entity in a transaction", async () => {
+      const error = await accountRepo.updateOnlyInTransaction("missing", {balance: 1}).catch(caught => caught)
+
+      expect(error).toBeInstanceOf(EntityNotFoundError)
+      expect(error).toMatchObject({ids: ["missing"], operation: "updateOnlyInTransaction"})
+    })
+
+    it("Should retry idempotent reads that fail with a transient error", async () => {
+      await accountRepo.createOnly({owner: "a", balance: 1})
+      inMemoryFirestore.failReads("account/a", StatusCode.UNAVAILABLE, StatusCode.DEADLINE_EXCEEDED)
+      inMemoryFirestore.failReads("account", StatusCode.RESOURCE_EXHAUSTED)
+
+      expect((await accountRepo.getOne("a"))?.balance).toBe(1)
+      expect(await accountRepo.getMany([])).toHaveLength(1)
+      expect(numberOfRetries).toBe(3)
+    })
+
+    it("Should throw a TransientError once the attempts run out", async () => {
+      inMemoryFirestore.failReads("account/a", StatusCode.UNAVAILABLE, StatusCode.UNAVAILABLE, StatusCode.UNAVAILABLE)
+
+      const error = await accountRepo.getOne("a").catch(caught => caught)
+
+      expect(error).toBeInstanceOf(TransientError)
+      expect(error).toMatchObject({ids: ["a"], operation: "getOne", attempts: 3})
+      expect(numberOfRetries).toBe(2)
+    })
+
+    it("Should retry aborted calls and throw a TransientError once the attempts run out", async () => {
+      inMemoryFirestore.failReads("account/a", StatusCode.ABORTED, StatusCode.ABORTED, StatusCode.ABORTED)
+
+      const error = await accountRepo.getOne("a").catch(caught => caught)
+
+      expect(error).toBeInstanceOf(TransientError)
+      expect(error).toMatchObject({attempts: 3})
+      expect(error.cause.code).toBe(StatusCode.ABORTED)
+    })
+
+    it("Should retry collection group queries and throw typed errors", async () => {
+      const groupRepo = new CollectionGroupRepository<Account>(inMemoryFirestore, "account", {
+        retry: {maxAttempts: 2, initialDelayMillis: 1},
+        opStatHandler: stats => {
+          numberOfRetries += stats.numberOfRetries ?? 0
+        },
+      })
+      await accountRepo.createOnly({owner: "a", balance: 1})
+      inMemoryFirestore.failReads("account", StatusCode.UNAVAILABLE)
+
+      expect(await groupRepo.getMany([])).toHaveLength(1)
+      expect(numberOfRetries).toBe(1)
+
+      inMemoryFirestore.failReads("account", StatusCode.UNAVAILABLE, StatusCode.UNAVAILABLE)
+      const error = await groupRepo.getMany([]).catch(caught => caught)
+      expect(error).toBeInstanceOf(TransientError)
+      expect(error).toMatchObject({collectionName: "account", ids: [], operation: "getMany", attempts: 2})
+    })
+
+    it("Should retry idempotent writes, but not creates or increments", async () => {
+      await accountRepo.createOnly({owner: "a", balance: 1})
+      inMemoryFirestore.failWrites("account/a", StatusCode.UNAVAILABLE)
+
+      expect(await accountRepo.updateOnly("a", {balance: 5})).toBe("a")
+      expect(numberOfRetries).toBe(1)
+
+      inMemoryFirestore.failWrites("account/a", StatusCode.UNAVAILABLE)
+      await expect(accountRepo.updateOnly("a", {balance: FieldTransform.increment(1)})).rejects.toBeInstanceOf(TransientError)
+      inMemoryFirestore.failWrites("account/b", StatusCode.UNAVAILABLE)
+      await expect(accountRepo.createOnly({owner: "b", balance: 1})).rejects.toBeInstanceOf(TransientError)
+
+      expect(numberOfRetries).toBe(1)
+      expect((await accountRepo.getOne("a"))?.balance).toBe(5)
+    })
+
+    it("Should not retry without a retry policy, or errors that are not transient", async () => {
+      const noRetryRepo = new FirestoreCrudRepository<Account>(inMemoryFirestore, "account")
+      inMemoryFirestore.failReads("account/a", StatusCode.UNAVAILABLE)
+      await expect(noRetryRepo.getOne("a")).rejects.toBeInstanceOf(TransientError)
+
+      inMemoryFirestore.failReads("account/a", StatusCode.PERMISSION_DENIED)
+      const error = await accountRepo.getOne("a").catch(caught => caught)
+      expect(error).not.toBeInstanceOf(RepositoryError)
+      expect(error.code).toBe(StatusCode.PERMISSION_DENIED)
+      expect(numberOfRetries).toBe(0)
+    })
+
+    it("Should map a failed precondition that needs an index to a MissingIndexError", () => {
+      const url = "https://console.firebase.google.com/v1/r/project/demo/firestore/indexes?create_composite=abc"
+      const indexError = Object.assign(new Error(`9 FAILED_PRECONDITION: The query requires an index. You can create it here: ${url}`), {code: 9})
+
+      const error = <MissingIndexError>toRepositoryError(indexError, "account", [], "getMany")
+
+      expect(error).toBeInstanceOf(MissingIndexError)
+      expect(error.indexUrl).toBe(url)
+      expect(toRepositoryError(Object.assign(new Error("stale"), {code: 9}), "account", ["a"], "updateOnly")).toBeInstanceOf(ConflictError)
+    })
+
+    it("Should back off exponentially with jitter up to the maximum delay", () => {
+      const policy = {initialDelayMillis: 100, maxDelayMillis: 1000, jitter: 0.5}
+
+      expect([1, 2, 3, 4, 5].map(attempt => retryDelay(policy, attempt, () => 0))).toEqual([100, 200, 400, 800, 1000])
+      expect(retryDelay(policy, 2, () => 1)).toBe(100)
+    })
+  })
+
+  describe("telemetry", () => {
+    interface Task extends Entity {
+      title:string,
+      priority:number,
+    }
+
+    interface RecordedSpan {
+      name:string,
+      attributes:{[key:string]:SpanAttributeValue},
+      exceptions:Array<Error|string>,
+      statusCode:number|null,
+      ended:boolean,
+    }
+
+    const recordingTracer = (spans:Array<RecordedSpan>):TelemetryTracer => ({
+      startActiveSpan: (name, options, fn) => {
+        const recorded:RecordedSpan = {name, attributes: {...options.attributes}, exceptions: [], statusCode: null, ended: false}
+        spans.push(recorded)
+        return <any>fn({
+          setAttribute: (key, value) => recorded.attributes[key] = value,
+          recordException: exception => recorded.exceptions.push(exception),
+          setStatus: status => recorded.statusCode = status.code,
+          end: () => recorded.ended = true,
+        })
+      },
+    })
+
+    let inMemoryFirestore:InMemoryFirestore
+    let taskStats:Array<RepositoryOperationStats>
+    let spans:Array<RecordedSpan>
+    let aggregator:StatsAggregator
+    let taskRepo:FirestoreCrudRepository<Task>
+
+    beforeEach(() => {
+      inMemoryFirestore = new InMemoryFirestore()
+      taskStats = []
+      spans = []
+      aggregator = new StatsAggregator({pricing: {perRead: 1, perWrite: 3, perDelete: 0.5}})
+      taskRepo = new FirestoreCrudRepository<Task>(inMemoryFirestore, "task", {
+        idGenerator: create => create.title,
+        opStatHandler: stats => taskStats.push(stats),
+        telemetry: {tracer: recordingTracer(spans), aggregator},
+      })
+    })
+
+    it("Should report one stat per call with its method, duration, query shape and result size", async () => {
+      await taskRepo.batchCreate([{title: "a", priority: 1}, {title: "b", priority: 2}])
+      taskStats = []
+
+      await taskRepo.getMany([{field: "priority", operation: ">=", value: 1}], {sort: [{field: "priority", order: SortOrder.DESC}], limit: 5})
+      await taskRepo.createAndReturn({title: "c", priority: 3})
+
+      expect(taskStats).toEqual([
+        {
+          collectionName: "task",
+          collectionPath: "task",
+          method: "getMany",
+          queryShape: "priority >= ? ORDER BY priority DESC LIMIT ?",
+          numberOfReads: 2,
+          durationMillis: expect.any(Number),
+          resultSize: 2,
+          status: "ok",
+        },
+        {
+          collectionName: "task",
+          collectionPath: "task",
+          method: "createAndReturn",
+          numberOfWrites: 1,
+          numberOfReads: 1,
+          durationMillis: expect.any(Number),
+          resultSize: 1,
+          status: "ok",
+        },
+      ])
+    })
+
+    it("Should report the error of a failed call", async () => {
+      await taskRepo.createOnly({title: "a", priority: 1})
+
+      await expect(taskRepo.batchCreate([{title: "a", priority: 1}])).rejects.toBeInstanceOf(AlreadyExistsError)
+      await expect(taskRepo.updateOnly("b", {priority: 2})).resolves.toBeNull()
+
+      expect(taskStats.slice(1)).toEqual([
+        expect.objectContaining({method: "batchCreate", status: "error", errorName: "AlreadyExistsError"}),
+        expect.objectContaining({method: "updateOnly", status: "ok", numberOfReads: 1, resultSize: 0}),
+      ])
+    })
+
+    it("Should give the same shape to queries that only differ in their values or the order of their filters", () => {
+      const first = queryShape<Task>([
+        {field: "priority", operation: "in", value: [1, 2]},
+        Filter.or<Task>(Filter.where<Task>("title", "==", "a"), Filter.where<Task>("priority", ">", 3)),
+      ])
+      const second = queryShape<Task>([
+        Filter.or<Task>(Filter.where<Task>("priority", ">", 9), Filter.where<Task>("title", "==", "secret")),
+        {field: "priority", operation: "in", value: [7]},
+      ])
+
+      expect(first).toBe("(priority > ? OR title == ?) AND priority in ?")
+      expect(second).toBe(first)
+      expect(queryShape([])).toBe("*")
+    })
+
+    it("Should wrap each call in a span, with nested calls counted in the outer one", async () => {
+      await taskRepo.createAndReturn({title: "a", priority: 1})
+      await expect(taskRepo.batchCreate([{title: "a", priority: 1}])).rejects.toThrow()
+
+      expect(spans.map(span => span.name)).toEqual(["createAndReturn task", "batchCreate task"])
+      expect(spans.every(span => span.ended)).toBe(true)
+      expect(spans[0].attributes).toEqual({
+        "db.system": "firestore",
+        "db.collection.name": "task",
+        "db.operation.name": "createAndReturn",
+        "firestore.reads": 1,
+        "firestore.writes": 1,
+        "db.response.returned_rows": 1,
+      })
+      expect(spans[0].statusCode).toBeNull()
+      expect(spans[1].statusCode).toBe(2)
+      expect(spans[1].exceptions[0]).toBeInstanceOf(AlreadyExistsError)
+    })
+
+    it("Should sum the cost and latency of each collection by method and query shape", async () => {
+      const otherRepo = new FirestoreCrudRepository<Task>(inMemoryFirestore, "other_task", {telemetry: {aggregator}})
+      await taskRepo.batchCreate([{title: "a", priority: 1}, {title: "b", priority: 2}])
+      await taskRepo.getMany([{field: "priority", operation: "==", value: 1}])
+      await taskRepo.getMany([{field: "priority", operation: "==", value: 2}])
+      await taskRepo.delete("a")
+      await otherRepo.getOne("missing")
+
+      const [other, task] = aggregator.summary()
+
+      expect(other).toMatchObject({collectionName: "other_task", numberOfCalls: 1, numberOfReads: 1, estimatedCost: 1})
+      expect(task).toMatchObject({
+        collectionName: "task",
+        numberOfCalls: 4,
+        numberOfErrors: 0,
+        numberOfReads: 3,
+        numberOfWrites: 2,
+        numberOfDeletes: 1,
+        estimatedCost: 9.5,
+      })
+      expect(Object.keys(task.methods)).toEqual(["batchCreate", "delete", "getMany"])
+      expect(task.methods.getMany).toMatchObject({numberOfCalls: 2, numberOfReads: 2})
+      expect(task.queryShapes["priority == ?"]).toMatchObject({numberOfCalls: 2, numberOfReads: 2})
+      expect(task.latency?.maxMillis).toBeGreaterThanOrEqual(task.latency?.p50Millis ?? Infinity)
+
+      aggregator.reset()
+      expect(aggregator.summary()).toEqual([])
+    })
+  })
+
+  describe("exportTo and importFrom", () => {
+    interface Place extends Entity {
+      name:string,
+      location:GeoPoint,
+      owner:DocumentReference,
+      photo:Buffer,
+      visitedAt:Timestamp,
+      tags:Array<string>,
+    }
+
+    let placeRepo:FirestoreCrudRepository<Place>
+    let placeCopyRepo:FirestoreCrudRepository<Place>
+
+    const exportToString = async (fromRepo:FirestoreCrudRepository<Place>):Promise<string> => {
+      const chunks = new Array<string>()
+      const stream = new PassThrough()
+      stream.on("data", chunk => chunks.push(chunk.toString()))
+      await fromRepo.exportTo(stream)
+      stream.end()
+      return chunks.join("")
+    }
+
+    beforeAll(() => {
+      placeRepo = new FirestoreCrudRepository<Place>(getFirestoreForTesting(), "place")
+      placeCopyRepo = new FirestoreCrudRepository<Place>(getFirestoreForTesting(), "place_copy")
+    })
+
+    beforeEach(async () => {
+      await placeRepo.batchDelete((await placeRepo.getMany([])).map(place => place.id))
+      await placeCopyRepo.batchDelete((await placeCopyRepo.getMany([])).map(place => place.id))
+      await placeRepo.batchCreate(["park", "museum", "harbour"].map((name, index) => ({
+        name,
+        location: new GeoPoint(51.5 + index, -0.1),
+        owner: placeRepo.getFirebaseCollection().firestore.doc(`owner/${name}`),
+        photo: Buffer.from([0, 255, index]),
+        visitedAt: new Timestamp(1700000000 + index, 123456789),
+        tags: [name, "outdoors"],
+      })))
+    })
+
+    it("Should round trip entities through NDJSON without losing types", async () => {
+      const ndjson = await exportToString(placeRepo)
+      expect(ndjson.trim().split("\n").length).toBe(3)
+
+      const result = await placeCopyRepo.importFrom(Readable.from([ndjson]), {mode: 'create'})
+
+      expect(result).toEqual({numberOfRows: 3, numberOfImported: 3, numberOfSkipped: 0, numberOfFailed: 0, failures: []})
+      const originals = await placeRepo.getMany([], {sort: [{field: "name", order: SortOrder.ASC}]})
+      const copies = await placeCopyRepo.getMany([], {sort: [{field: "name", order: SortOrder.ASC}]})
+      expect(copies.length).toBe(3)
+      copies.forEach((copy, index) => {
+        const original = originals[index]
+        expect(copy.id).toBe(original.id)
+        expect(copy.location.isEqual(original.location)).toBe(true)
+        expect(copy.owner.path).toBe(original.owner.path)
+        expect(Buffer.compare(copy.photo, original.photo)).toBe(0)
+        expect(copy.visitedAt.isEqual(original.visitedAt)).toBe(true)
+        expect(copy.createdAt.isEqual(original.createdAt)).toBe(true)
+        expect(copy.tags).toEqual(original.tags)
+      })
+    })
+
+    it("Should only export the entities matched by the queries", async () => {
+      const chunks = new Array<string>()
+      const stream = new PassThrough()
+      stream.on("data", chunk => chunks.push(chunk.toString()))
+      const count = await placeRepo.exportTo(stream, [{field: "name", operation: "==", value: "park"}])
+
+      expect(count).toBe(1)
+      expect(chunks.join("")).toContain("park")
+      expect(chunks.join("")).not.toContain("museum")
+    })
+
+    it("Should report rows that already exist when creating", async () => {
+      const ndjson = await exportToString(placeRepo)
+      const [existing] = await placeRepo.getMany([{field: "name", operation: "==", value: "museum"}])
+      await placeCopyRepo.importFrom(Readable.from([ndjson.split("\n").find(row => row.includes(existing.id))!]), {mode: 'create'})
+
+      const result = await placeCopyRepo.importFrom(Readable.from([ndjson]), {mode: 'create'})
+
+      expect(result.numberOfImported).toBe(2)
+      expect(result.numberOfFailed).toBe(1)
+      expect(result.failures[0].id).toBe(existing.id)
+      expect(result.failures[0].line).toBe(ndjson.split("\n").findIndex(row => row.includes(existing.id)) + 1)
+      expect((await placeCopyRepo.getMany([])).length).toBe(3)
+    })
+
+    it("Should skip existing rows or overwrite them", async () => {
+      const ndjson = await exportToString(placeRepo)
+      await placeCopyRepo.importFrom(Readable.from([ndjson]), {mode: 'create'})
+      const [park] = await placeCopyRepo.getMany([{field: "name", operation: "==", value: "park"}])
+      await placeCopyRepo.updateOnly(park.id, {tags: ["changed"]})
+
+      const skipped = await placeCopyRepo.importFrom(Readable.from([ndjson]), {mode: 'skip-existing'})
+      expect(skipped.numberOfSkipped).toBe(3)
+      expect(skipped.numberOfImported).toBe(0)
+      expect((await placeCopyRepo.getOne(park.id))?.tags).toEqual(["changed"])
+
+      const upserted = await placeCopyRepo.importFrom(Readable.from([ndjson]), {mode: 'upsert'})
+      expect(upserted.numberOfImported).toBe(3)
+      expect((await placeCopyRepo.getOne(park.id))?.tags).toEqual(["park", "outdoors"])
+    })
+
+    it("Should report rows that cannot be read and the progress of the import", async () => {
+      const rows = (await exportToString(placeRepo)).trim().split("\n")
+      const ndjson = [rows[0], "{not json", "", `{"name":"no id"}`, rows[1], rows[2]].join("\n")
+      const progress = new Array<ImportProgress>()
+
+      const result = await placeCopyRepo.importFrom(Readable.from([ndjson]), {
+        mode: 'create',
+        batchSize: 2,
+        onProgress: update => progress.push(update),
+      })
+
+      expect(result.numberOfRows).toBe(5)
+      expect(result.numberOfImported).toBe(3)
+      expect(result.failures.map(failure => failure.line)).toEqual([2, 4])
+      expect(result.failures.map(failure => failure.id)).toEqual([null, null])
+      expect(progress.map(update => update.numberOfImported)).toEqual([2, 3])
+      expect(progress[progress.length - 1].numberOfRows).toBe(5)
+    })
+  })
+
+  describe("MigrationRunner", () => {
+    interface Product extends Entity {
+      name:string,
+      price?:number,
+      priceInCents?:number,
+    }
+
+    let productRepo:FirestoreCrudRepository<Product>
+    let metadataCollectionName:string
+
+    const toCents = {
+      version: 1,
+      name: "price in cents",
+      migrate: (product:Product) => product.price === undefined
+        ? null
+        : {priceInCents: Math.round(product.price * 100)},
+    }
+    const removePrice = {
+      version: 2,
+      name: "remove price",
+      migrate: () => ({price: <any>FieldValue.delete()}),
+    }
+
+    beforeAll(() => {
+      productRepo = new FirestoreCrudRepository<Product>(
+        getFirestoreForTesting(),
+        "product",
+        {idGenerator: create => create.name}
+      )
+    })
+
+    beforeEach(async () => {
+      await productRepo.batchDelete((await productRepo.getMany([])).map(product => product.id))
+      await productRepo.batchCreate([
+        {name: "a", price: 1.5},
+        {name: "b", price: 2},
+        {name: "c", price: 3.25},
+        {name: "d"},
+        {name: "e", price: 5},
+      ])
+      metadataCollectionName = `migrations_${uuid()}`
+    })
+
+    it("Should apply pending migrations in order and record them", async () => {
+      const runner = new MigrationRunner(productRepo, {metadataCollectionName, batchSize: 2})
+        .register(removePrice, toCents)
+
+      const results = await runner.run()
+
+      expect(results.map(result => [result.version, result.status, result.numberOfProcessed])).toEqual([
+        [1, "applied", 5],
+        [2, "applied", 5],
+      ])
+      expect(results[0].numberOfUpdated).toBe(4)
+      const products = await productRepo.getMany([])
+      expect(products.map(product => [product.name, product.price, product.priceInCents])).toEqual([
+        ["a", undefined, 150],
+        ["b", undefined, 200],
+        ["c", undefined, 325],
+        ["d", undefined, undefined],
+        ["e", undefined, 500],
+      ])
+      expect((await runner.history()).map(record => [record.version, record.status])).toEqual([[1, "applied"], [2, "applied"]])
+      expect(await runner.pending()).toEqual([])
+      expect(await runner.run()).toEqual([])
+    })
+
+    it("Should resume a crashed run from the last checkpoint", async () => {
+      const migrated = new Array<string>()
+      let crash = true
+      const runner = new MigrationRunner(productRepo, {
+        metadataCollectionName,
+        batchSize: 2,
+        onDocumentError: () => {
+          if (crash) {
+            throw new Error("Process crashed")
+          }
+        },
+      }).register({
+        version: 1,
+        name: "crashes on c",
+        migrate: product => {
+          if (product.name === "c" && crash) {
+            throw new Error("Failed to migrate")
+          }
+          migrated.push(product.name)
+          return {price: 0}
+        },
+      })
+
+      await expect(runner.run()).rejects.toThrow("Process crashed")
+      expect((await runner.history())[0]).toMatchObject({status: "running", lastProcessedId: "b", numberOfProcessed: 2})
+
+      crash = false
+      const [result] = await runner.run()
+
+      expect(result).toMatchObject({status: "applied", resumedAfterId: "b", lastProcessedId: "e", numberOfProcessed: 5})
+      expect(migrated).toEqual(["a", "b", "c", "d", "e"])
+    })
+
+    it("Should resume after the checkpoint when its entity has been deleted", async () => {
+      const migrated = new Array<string>()
+      let crash = true
+      const runner = new MigrationRunner(productRepo, {
+        metadataCollectionName,
+        batchSize: 2,
+        onDocumentError: () => {
+          if (crash) {
+            throw new Error("Process crashed")
+          }
+        },
+      }).register({
+        version: 1,
+        name: "crashes on c",
+        migrate: product => {
+          if (product.name === "c" && crash) {
+            throw new Error("Failed to migrate")
+          }
+          migrated.push(product.name)
+          return {price: 0}
+        },
+      })
+      await expect(runner.run()).rejects.toThrow("Process crashed")
+
+      await productRepo.delete("b")
+      crash = false
+      const [result] = await runner.run()
+
+      expect(result).toMatchObject({status: "applied", resumedAfterId: "b", lastProcessedId: "e", numberOfProcessed: 5})
+      expect(migrated).toEqual(["a", "b", "c", "d", "e"])
+    })
+
+    it("Should report documents that fail and stop before later migrations", async () => {
+      const failures = new Array<MigrationFailure>()
+      const runner = new MigrationRunner(productRepo, {metadataCollectionName, onDocumentError: failure => failures.push(failure)})
+        .register(
+          {
+            version: 1,
+            name: "fails on b",
+            migrate: product => {
+              if (product.name === "b") {
+                throw new Error("Cannot migrate b")
+              }
+              return {price: 10}
+            },
+          },
+          removePrice,
+        )
+
+      const results = await runner.run()
+
+      expect(results.map(result => [result.version, result.status])).toEqual([[1, "failed"]])
+      expect(results[0].failures.map(failure => failure.id)).toEqual(["b"])
+      expect(failures.map(failure => failure.error.message)).toEqual(["Cannot migrate b"])
+      expect((await productRepo.getOne("a"))?.price).toBe(10)
+      expect((await runner.pending()).map(migration => migration.version)).toEqual([1, 2])
+    })
+
+    it("Should not write anything in a dry run", async () => {
+      const runner = new MigrationRunner(productRepo, {metadataCollectionName, dryRun: true}).register(toCents)
+
+      const [result] = await runner.run()
+
+      expect(result).toMatchObject({dryRun: true, status: "applied", numberOfProcessed: 5, numberOfUpdated: 4})
+      expect((await productRepo.getOne("a"))?.priceInCents).toBeUndefined()
+      expect(await runner.history()).toEqual([])
+    })
+
+    it("Should limit the rate of writes", async () => {
+      const runner = new MigrationRunner(productRepo, {metadataCollectionName, batchSize: 2, maxWritesPerSecond: 100})
+        .register({version: 1, name: "touch", migrate: () => ({price: 1})})
+
+      const start = Date.now()
+      await runner.run()
+
+      // 5 writes at 100 a second, the first batch of 2 goes straight away
+      expect(Date.now() - start).toBeGreaterThanOrEqual(35)
+    })
+
+    it("Should record migrations for each tenant of a shared collection", async () => {
+      const tenantRepo = new FirestoreCrudRepository<Product>(getFirestoreForTesting(), `tenant_product_${uuid()}`, {
+        tenancy: {tenantProvider: () => null},
+      })
+      await tenantRepo.forTenant("a").batchCreate([{name: "a1", price: 1}])
+      await tenantRepo.forTenant("b").batchCreate([{name: "b1", price: 2}, {name: "b2", price: 3}])
+      const runnerFor = (tenantId:string) => new MigrationRunner(tenantRepo.forTenant(tenantId), {metadataCollectionName}).register(toCents)
+
+      const [resultA] = await runnerFor("a").run()
+
+      expect(resultA).toMatchObject({status: "applied", numberOfProcessed: 1})
+      expect((await runnerFor("b").pending()).map(migration => migration.version)).toEqual([1])
+      expect((await runnerFor("b").history())).toEqual([])
+      const [resultB] = await runnerFor("b").run()
+      expect(resultB).toMatchObject({status: "applied", numberOfProcessed: 2})
+      expect((await runnerFor("a").history()).map(record => [record.tenantId, record.status])).toEqual([["a", "applied"]])
+      expect((await tenantRepo.forTenant("b").getMany([])).map(product => product.priceInCents).sort()).toEqual([200, 300])
+    })
+
+    it("Should reject migrations with duplicate versions", () => {
+      const runner = new MigrationRunner(productRepo).register(toCents)
+
+      expect(() => runner.register({...removePrice, version: 1})).toThrow()
+    })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,51 @@
+import {Create, Update} from "./index";
+
+export interface HookContext {
+  collectionName:string,
+  collectionPath:string,
+  method:string,
+}
+
+type MaybePromise<V> = V|Promise<V>
+
+/**
+ * Functions run around the operations of a FirestoreCrudRepository.
+ *
+ * A `before*` hook may return a replacement for the value it was given, or throw to stop the operation before anything is written.
+ * An `after*` hook is run once the write has been made, so throwing from it does not undo the write.
+ */
+export interface RepositoryHooks<T> {
+  beforeCreate?:(create:Create<T>, context:HookContext) => MaybePromise<Create<T>|void>,
+  afterCreate?:(id:string, create:Create<T>, context:HookContext) => MaybePromise<void>,
+  beforeUpdate?:(id:string, update:Update<T>, context:HookContext) => MaybePromise<Update<T>|void>,
+  afterUpdate?:(id:string, update:Update<T>, context:HookContext) => MaybePromise<void>,
+  beforeDelete?:(id:string, context:HookContext) => MaybePromise<void>,
+  afterDelete?:(id:string, context:HookContext) => MaybePromise<void>,
+  afterRead?:(entity:T, context:HookContext) => MaybePromise<T|void>,
+}
+
+/**
+ * Passes the value through each hook in the order they were registered, each hook is given the value returned by the one before it.
+ */
+export const runTransformHooks = async <V>(
+  hooks:Array<(value:V) => MaybePromise<V|void>>,
+  value:V,
+):Promise<V> => {
+  let current = value
+  for (const hook of hooks) {
+    const result = await hook(current)
+    if (result !== undefined) {
+      current = result
+    }
+  }
+  return current
+}
+
+/**
+ * Runs each hook in the order they were registered, waiting for each to finish before starting the next.
+ */
+export const runHooks = async (hooks:Array<() => MaybePromise<void>>):Promise<void> => {
+  for (const hook of hooks) {
+    await hook()
+  }
+}
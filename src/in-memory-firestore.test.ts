@@ -0,0 +1,169 @@
+import {FieldValue, Filter, Timestamp} from "@google-cloud/firestore";
+import {InMemoryFirestore, StatusCode} from "./in-memory-firestore";
+
+describe("InMemoryFirestore", () => {
+
+  let firestore:InMemoryFirestore
+
+  beforeEach(() => {
+    firestore = new InMemoryFirestore()
+  })
+
+  describe("writes", () => {
+    it("Should resolve server timestamps to the commit time", async () => {
+      const ref = firestore.collection("things").doc("a")
+      const result = await ref.set({createdAt: FieldValue.serverTimestamp()})
+      const snapshot = await ref.get()
+
+      expect(snapshot.get("createdAt")).toBeInstanceOf(Timestamp)
+      expect(snapshot.get("createdAt").isEqual(result.writeTime)).toBe(true)
+    })
+
+    it("Should fail to update a missing document", async () => {
+      await expect(firestore.collection("things").doc("a").update({value: 1}))
+        .rejects.toMatchObject({code: 5})
+    })
+
+    it("Should apply nothing from a batch if one write fails", async () => {
+      const collection = firestore.collection("things")
+      await collection.doc("a").set({value: 1})
+
+      const batch = firestore.batch()
+      batch.create(collection.doc("b"), {value: 2})
+      batch.create(collection.doc("a"), {value: 3})
+
+      await expect(batch.commit()).rejects.toMatchObject({code: 6})
+      expect((await collection.doc("b").get()).exists).toBe(false)
+      expect((await collection.doc("a").get()).get("value")).toBe(1)
+    })
+
+    it("Should not share data between reads and the store", async () => {
+      const ref = firestore.collection("things").doc("a")
+      await ref.set({nested: {value: 1}})
+      const data = (await ref.get()).data()!
+      data.nested.value = 2
+
+      expect((await ref.get()).get("nested.value")).toBe(1)
+    })
+  })
+
+  describe("queries", () => {
+    it("Should order by field then document id and skip documents missing the field", async () => {
+      const collection = firestore.collection("things")
+      await collection.doc("c").set({rank: 1})
+      await collection.doc("a").set({rank: 2})
+      await collection.doc("b").set({rank: 1})
+      await collection.doc("d").set({other: true})
+
+      const snapshot = await collection.orderBy("rank").get()
+
+      expect(snapshot.docs.map(doc => doc.id)).toEqual(["b", "c", "a"])
+    })
+
+    it("Should match composite filters", async () => {
+      const collection = firestore.collection("things")
+      await collection.doc("a").set({rank: 1, colour: "red"})
+      await collection.doc("b").set({rank: 2, colour: "blue"})
+      await collection.doc("c").set({rank: 3, colour: "red"})
+
+      const snapshot = await collection
+        .where(Filter.or(Filter.where("rank", "==", 2), Filter.and(Filter.where("colour", "==", "red"), Filter.where("rank", ">", 1))))
+        .get()
+
+      expect(snapshot.docs.map(doc => doc.id)).toEqual(["b", "c"])
+    })
+
+    it("Should start after a document snapshot", async () => {
+      const collection = firestore.collection("things")
+      await collection.doc("a").set({rank: 3})
+      await collection.doc("b").set({rank: 2})
+      await collection.doc("c").set({rank: 1})
+
+      const startAfter = await collection.doc("b").get()
+      const snapshot = await collection.orderBy("rank", "desc").startAfter(startAfter).get()
+
+      expect(snapshot.docs.map(doc => doc.id)).toEqual(["c"])
+    })
+
+    it("Should fail the next reads of a document or collection with injected errors", async () => {
+      const collection = firestore.collection("things")
+      await collection.doc("a").set({rank: 1})
+      firestore.failReads("things/a", StatusCode.UNAVAILABLE)
+      firestore.failReads("things", StatusCode.DEADLINE_EXCEEDED)
+
+      await expect(collection.doc("a").get()).rejects.toMatchObject({code: StatusCode.UNAVAILABLE})
+      await expect(collection.get()).rejects.toMatchObject({code: StatusCode.DEADLINE_EXCEEDED})
+      expect((await collection.doc("a").get()).get("rank")).toBe(1)
+      expect((await collection.get()).size).toBe(1)
+    })
+  })
+
+  describe("bulkWriter", () => {
+    it("Should retry writes that fail with a transient error", async () => {
+      const ref = firestore.collection("things").doc("a")
+      firestore.failWrites(ref.path, StatusCode.UNAVAILABLE, StatusCode.ABORTED)
+      const bulkWriter = firestore.bulkWriter()
+
+      const write = bulkWriter.set(ref, {value: 1})
+      await bulkWriter.close()
+
+      await expect(write).resolves.toBeDefined()
+      expect((await ref.get()).get("value")).toBe(1)
+    })
+
+    it("Should reject writes the error handler does not retry", async () => {
+      const collection = firestore.collection("things")
+      await collection.doc("a").set({value: 1})
+      const bulkWriter = firestore.bulkWriter()
+      const attempts = new Array<number>()
+      bulkWriter.onWriteError(error => {
+        attempts.push(error.failedAttempts)
+        return false
+      })
+
+      const failed = bulkWriter.create(collection.doc("a"), {value: 2})
+      const written = bulkWriter.create(collection.doc("b"), {value: 3})
+      await bulkWriter.flush()
+
+      await expect(failed).rejects.toMatchObject({code: StatusCode.ALREADY_EXISTS, operationType: "create"})
+      await expect(written).resolves.toBeDefined()
+      expect(attempts).toEqual([1])
+    })
+  })
+
+  describe("runTransaction", () => {
+    it("Should retry when a document read in the transaction changes", async () => {
+      const ref = firestore.collection("things").doc("a")
+      await ref.set({value: 1})
+      let attempts = 0
+
+      await firestore.runTransaction(async transaction => {
+        attempts++
+        const snapshot = await transaction.get(ref)
+        if (attempts === 1) {
+          await ref.set({value: 10})
+        }
+        transaction.update(ref, {value: snapshot.get("value") + 1})
+      })
+
+      expect(attempts).toBe(2)
+      expect((await ref.get()).get("value")).toBe(11)
+    })
+  })
+
+  describe("onSnapshot", () => {
+    it("Should not deliver snapshots after the listener is removed", async () => {
+      const collection = firestore.collection("things")
+      await collection.doc("a").set({value: 1})
+      const delivered = new Array<string>()
+
+      collection.doc("a").onSnapshot(() => delivered.push("document"))()
+      collection.onSnapshot(() => delivered.push("query"))()
+      await collection.doc("a").set({value: 2})
+      await new Promise(resolve => setImmediate(resolve))
+
+      expect(delivered).toEqual([])
+    })
+  })
+
+})
@@ -0,0 +1,1361 @@
+import {AsyncResource} from "async_hooks";
+import {AggregateField, FieldPath, FieldValue, Filter, Firestore, GeoPoint, Timestamp, WhereFilterOp} from "@google-cloud/firestore";
+import {cloneValue, isPlainObject} from "./plain-object";
+
+/**
+ * A small, dependency free stand-in for the parts of the Firestore Node client used by
+ * FirestoreCrudRepository. Documents are held in process memory, so it is intended for
+ * tests and local development rather than production use.
+ *
+ * It follows the Firestore semantics that the repository relies on:
+ *  - server timestamps resolve to the commit time of the write, batch or transaction
+ *  - batches and transactions are applied atomically
+ *  - queries order by the requested fields and then by document name, and exclude documents missing an ordered field
+ *  - errors carry the same gRPC status codes as the real client
+ */
+
+export interface InMemoryFirestoreSettings {
+  ignoreUndefinedProperties?:boolean,
+}
+
+interface StoredDocument {
+  data:DocumentData,
+  createTime:Timestamp,
+  updateTime:Timestamp,
+  version:number,
+}
+
+type DocumentData = {[field:string]:any}
+
+type Direction = 'asc'|'desc'
+
+interface FieldFilter {
+  field:string,
+  op:WhereFilterOp,
+  value:any,
+}
+
+interface CompositeFilter {
+  op:'AND'|'OR',
+  filters:Array<QueryFilter>,
+}
+
+type QueryFilter = FieldFilter|CompositeFilter
+
+interface Order {
+  field:string,
+  direction:Direction,
+}
+
+interface Cursor {
+  values:Array<any>,
+  inclusive:boolean,
+}
+
+// a query either reads a single collection, or every collection with the given id when it is a collection group query
+type QuerySource =
+  | {collectionPath:string}
+  | {collectionId:string}
+
+interface QueryDefinition {
+  source:QuerySource,
+  filters:Array<QueryFilter>,
+  orders:Array<Order>,
+  limit:number|null,
+  limitToLast:boolean,
+  startAt:Cursor|null,
+  endAt:Cursor|null,
+}
+
+const DOCUMENT_ID = '__name__'
+const AUTO_ID_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
+const AUTO_ID_LENGTH = 20
+const DEFAULT_MAX_TRANSACTION_ATTEMPTS = 5
+const MAX_BULK_WRITER_ATTEMPTS = 10
+// the real client backs off from one second, a short backoff keeps tests that retry fast
+const BULK_WRITER_BACKOFF_INITIAL_MILLIS = 5
+const BULK_WRITER_BACKOFF_MAX_MILLIS = 100
+
+export enum StatusCode {
+  ABORTED = 10,
+  ALREADY_EXISTS = 6,
+  DEADLINE_EXCEEDED = 4,
+  FAILED_PRECONDITION = 9,
+  INTERNAL = 13,
+  INVALID_ARGUMENT = 3,
+  NOT_FOUND = 5,
+  PERMISSION_DENIED = 7,
+  RESOURCE_EXHAUSTED = 8,
+  UNAVAILABLE = 14,
+}
+
+// the codes the real BulkWriter retries by default
+const BULK_WRITER_RETRY_CODES = [StatusCode.ABORTED, StatusCode.RESOURCE_EXHAUSTED, StatusCode.UNAVAILABLE]
+
+const statusError = (code:StatusCode, message:string):Error => {
+  return Object.assign(
+    new Error(`${code} ${StatusCode[code]}: ${message}`),
+    {code, details: message}
+  )
+}
+
+const autoId = ():string => {
+  let id = ''
+  for (let i = 0; i < AUTO_ID_LENGTH; i++) {
+    id += AUTO_ID_CHARACTERS.charAt(Math.floor(Math.random() * AUTO_ID_CHARACTERS.length))
+  }
+  return id
+}
+
+const isFieldValue = (value:any, methodName:string):boolean => {
+  return value instanceof FieldValue && (value as any).methodName === methodName
+}
+
+const fieldPathToString = (field:string|FieldPath):string => {
+  if (field instanceof FieldPath) {
+    return field.isEqual(FieldPath.documentId()) ? DOCUMENT_ID : field.toString()
+  }
+  return field
+}
+
+const splitFieldPath = (field:string):Array<string> => {
+  return field.split('.')
+}
+
+const getField = (data:DocumentData|undefined, field:string):any => {
+  let current:any = data
+  for (const segment of splitFieldPath(field)) {
+    if (!isPlainObject(current) || !(segment in current)) {
+      return undefined
+    }
+    current = current[segment]
+  }
+  return current
+}
+
+const setField = (data:DocumentData, field:string, value:any) => {
+  const segments = splitFieldPath(field)
+  let current:any = data
+  segments.slice(0, -1).forEach(segment => {
+    if (!isPlainObject(current[segment])) {
+      current[segment] = {}
+    }
+    current = current[segment]
+  })
+  current[segments[segments.length - 1]] = value
+}
+
+const deleteField = (data:DocumentData, field:string) => {
+  const segments = splitFieldPath(field)
+  let current:any = data
+  for (const segment of segments.slice(0, -1)) {
+    if (!isPlainObject(current[segment])) {
+      return
+    }
+    current = current[segment]
+  }
+  delete current[segments[segments.length - 1]]
+}
+
+// Firestore orders values of different types by type first, then by value within a type.
+const typeOrder = (value:any):number => {
+  if (value === null || value === undefined) return 0
+  if (typeof value === 'boolean') return 1
+  if (typeof value === 'number') return 2
+  if (value instanceof Timestamp) return 3
+  if (typeof value === 'string') return 4
+  if (value instanceof Uint8Array) return 5
+  if (value instanceof InMemoryDocumentReference) return 6
+  if (value instanceof GeoPoint) return 7
+  if (Array.isArray(value)) return 8
+  return 9
+}
+
+const compareNumbers = (left:number, right:number):number => {
+  if (Number.isNaN(left)) return Number.isNaN(right) ? 0 : -1
+  if (Number.isNaN(right)) return 1
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+const compareStrings = (left:string, right:string):number => {
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+export const compareValues = (left:any, right:any):number => {
+  const typeComparison = typeOrder(left) - typeOrder(right)
+  if (typeComparison !== 0) {
+    return typeComparison < 0 ? -1 : 1
+  }
+  switch (typeOrder(left)) {
+    case 0:
+      return 0
+    case 1:
+      return left === right ? 0 : left ? 1 : -1
+    case 2:
+      return compareNumbers(left, right)
+    case 3:
+      return compareNumbers(left.seconds, right.seconds) || compareNumbers(left.nanoseconds, right.nanoseconds)
+    case 4:
+      return compareStrings(left, right)
+    case 5:
+      return Buffer.compare(Buffer.from(left), Buffer.from(right))
+    case 6:
+      return compareDocumentPaths(left.path, right.path)
+    case 7:
+      return compareNumbers(left.latitude, right.latitude) || compareNumbers(left.longitude, right.longitude)
+    case 8:
+      for (let i = 0; i < Math.min(left.length, right.length); i++) {
+        const comparison = compareValues(left[i], right[i])
+        if (comparison !== 0) {
+          return comparison
+        }
+      }
+      return compareNumbers(left.length, right.length)
+    default: {
+      const leftKeys = Object.keys(left).sort()
+      const rightKeys = Object.keys(right).sort()
+      for (let i = 0; i < Math.min(leftKeys.length, rightKeys.length); i++) {
+        const comparison = compareStrings(leftKeys[i], rightKeys[i]) || compareValues(left[leftKeys[i]], right[rightKeys[i]])
+        if (comparison !== 0) {
+          return comparison
+        }
+      }
+      return compareNumbers(leftKeys.length, rightKeys.length)
+    }
+  }
+}
+
+const compareDocumentPaths = (left:string, right:string):number => {
+  const leftSegments = left.split('/')
+  const rightSegments = right.split('/')
+  for (let i = 0; i < Math.min(leftSegments.length, rightSegments.length); i++) {
+    const comparison = compareStrings(leftSegments[i], rightSegments[i])
+    if (comparison !== 0) {
+      return comparison
+    }
+  }
+  return compareNumbers(leftSegments.length, rightSegments.length)
+}
+
+const valuesEqual = (left:any, right:any):boolean => {
+  return typeOrder(left) === typeOrder(right) && compareValues(left, right) === 0
+}
+
+// the Firestore client keeps the parts of a Filter in internal fields, so they are read the same way as FieldValue method names
+const toQueryFilter = (filter:Filter):QueryFilter => {
+  const internal = filter as any
+  if (typeof internal._getFilters === 'function') {
+    return {op: internal._getOperator(), filters: internal._getFilters().map(toQueryFilter)}
+  }
+  return {field: fieldPathToString(internal._getField()), op: internal._getOperator(), value: internal._getValue()}
+}
+
+const fieldFilters = (filters:Array<QueryFilter>):Array<FieldFilter> => {
+  return filters.flatMap(filter => 'filters' in filter ? fieldFilters(filter.filters) : [filter])
+}
+
+const matchesFilter = (document:InMemoryDocumentSnapshot, filter:QueryFilter):boolean => {
+  if ('filters' in filter) {
+    return filter.op === 'OR'
+      ? filter.filters.some(nested => matchesFilter(document, nested))
+      : filter.filters.every(nested => matchesFilter(document, nested))
+  }
+  return matchesFieldFilter(document, filter)
+}
+
+const matchesFieldFilter = (document:InMemoryDocumentSnapshot, filter:FieldFilter):boolean => {
+  const value = filter.field === DOCUMENT_ID ? document.ref : document.get(filter.field)
+  const exists = filter.field === DOCUMENT_ID || value !== undefined
+  if (!exists) {
+    return false
+  }
+  const filterValue = filter.field === DOCUMENT_ID ? toReferenceValue(document.ref, filter.value) : filter.value
+  switch (filter.op) {
+    case '==':
+      return valuesEqual(value, filterValue)
+    case '!=':
+      return value !== null && !valuesEqual(value, filterValue)
+    case '<':
+      return typeOrder(value) === typeOrder(filterValue) && compareValues(value, filterValue) < 0
+    case '<=':
+      return typeOrder(value) === typeOrder(filterValue) && compareValues(value, filterValue) <= 0
+    case '>':
+      return typeOrder(value) === typeOrder(filterValue) && compareValues(value, filterValue) > 0
+    case '>=':
+      return typeOrder(value) === typeOrder(filterValue) && compareValues(value, filterValue) >= 0
+    case 'array-contains':
+      return Array.isArray(value) && value.some(element => valuesEqual(element, filterValue))
+    case 'array-contains-any':
+      return Array.isArray(value) && value.some(element => filterValue.some((candidate:any) => valuesEqual(element, candidate)))
+    case 'in':
+      return filterValue.some((candidate:any) => valuesEqual(value, candidate))
+    case 'not-in':
+      return value !== null && !filterValue.some((candidate:any) => valuesEqual(value, candidate))
+    default:
+      throw statusError(StatusCode.INVALID_ARGUMENT, `Unsupported filter operation: ${filter.op}`)
+  }
+}
+
+// Document id filters may be given as ids relative to the collection being queried.
+const toReferenceValue = (documentRef:InMemoryDocumentReference, value:any):any => {
+  if (Array.isArray(value)) {
+    return value.map(element => toReferenceValue(documentRef, element))
+  }
+  if (typeof value === 'string') {
+    return documentRef.firestore.doc(`${documentRef.parent.path}/${value}`)
+  }
+  return value
+}
+
+const diffSnapshots = (
+  previous:Array<InMemoryDocumentSnapshot>,
+  current:Array<InMemoryDocumentSnapshot>,
+):Array<InMemoryDocumentChange> => {
+  const previousIndexes = new Map(previous.map((doc, index) => [doc.ref.path, index]))
+  const currentPaths = new Set(current.map(doc => doc.ref.path))
+  const changes:Array<InMemoryDocumentChange> = previous
+    .filter(doc => !currentPaths.has(doc.ref.path))
+    .map(doc => ({type: 'removed', doc, oldIndex: previousIndexes.get(doc.ref.path)!, newIndex: -1}))
+  current.forEach((doc, newIndex) => {
+    const oldIndex = previousIndexes.get(doc.ref.path)
+    if (oldIndex === undefined) {
+      changes.push({type: 'added', doc, oldIndex: -1, newIndex})
+    } else if (previous[oldIndex].version() !== doc.version()) {
+      changes.push({type: 'modified', doc, oldIndex, newIndex})
+    }
+  })
+  return changes
+}
+
+const INEQUALITY_OPERATIONS:Array<WhereFilterOp> = ['<', '<=', '>', '>=', '!=', 'not-in']
+
+export class InMemoryFirestore {
+
+  private readonly collections = new Map<string, Map<string, StoredDocument>>()
+  private readonly listeners = new Set<() => void>()
+  private readonly writeFailures = new Map<string, Array<StatusCode>>()
+  private readonly readFailures = new Map<string, Array<StatusCode>>()
+  private lastCommitTime:Timestamp|null = null
+
+  constructor(
+    readonly settings:InMemoryFirestoreSettings = {},
+  ) {}
+
+  /**
+   * The in-memory store exposes the subset of the Firestore API that the repository uses,
+   * so it is handed to the repository typed as a Firestore instance.
+   */
+  asFirestore():Firestore {
+    return this as unknown as Firestore
+  }
+
+  collection(collectionPath:string):InMemoryCollectionReference {
+    return new InMemoryCollectionReference(this, collectionPath)
+  }
+
+  collectionGroup(collectionId:string):InMemoryQuery {
+    return new InMemoryQuery(this, {
+      source: {collectionId},
+      filters: [],
+      orders: [],
+      limit: null,
+      limitToLast: false,
+      startAt: null,
+      endAt: null,
+    })
+  }
+
+  doc(documentPath:string):InMemoryDocumentReference {
+    const segments = documentPath.split('/')
+    const id = segments[segments.length - 1]
+    return new InMemoryDocumentReference(this, segments.slice(0, -1).join('/'), id)
+  }
+
+  async getAll(...refs:Array<InMemoryDocumentReference>):Promise<Array<InMemoryDocumentSnapshot>> {
+    if (refs.length === 0) {
+      throw statusError(StatusCode.INVALID_ARGUMENT, 'getAll() requires at least one document reference.')
+    }
+    refs.forEach(ref => this.failRead(ref.path))
+    return refs.map(ref => ref.snapshot())
+  }
+
+  batch():InMemoryWriteBatch {
+    return new InMemoryWriteBatch(this)
+  }
+
+  /**
+   * Writes are sent one at a time, there is no server to overload, so throttling options are accepted but have no effect.
+   */
+  bulkWriter(options?:{throttling?:boolean|{initialOpsPerSecond?:number, maxOpsPerSecond?:number}}):InMemoryBulkWriter {
+    return new InMemoryBulkWriter(this)
+  }
+
+  async runTransaction<R>(
+    updateFunction:(transaction:InMemoryTransaction) => Promise<R>,
+    transactionOptions?:{maxAttempts?:number},
+  ):Promise<R> {
+    const maxAttempts = transactionOptions?.maxAttempts ?? DEFAULT_MAX_TRANSACTION_ATTEMPTS
+    let lastError:Error|null = null
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const transaction = new InMemoryTransaction(this)
+      const result = await updateFunction(transaction)
+      if (!transaction.hasConflicts()) {
+        await transaction.commit()
+        return result
+      }
+      lastError = statusError(StatusCode.ABORTED, 'Transaction lock timeout, documents read in the transaction were modified.')
+    }
+    throw lastError
+  }
+
+  /**
+   * Removes every document from every collection.
+   */
+  clear() {
+    this.collections.clear()
+    this.writeFailures.clear()
+    this.readFailures.clear()
+  }
+
+  /**
+   * Fails the next writes to the document with the given status codes, one write per code,
+   * so that tests can check how errors such as an unavailable backend are handled.
+   */
+  failWrites(documentPath:string, ...codes:Array<StatusCode>) {
+    this.writeFailures.set(documentPath, [...(this.writeFailures.get(documentPath) ?? []), ...codes])
+  }
+
+  /**
+   * Fails the next reads of the document, or the next queries of the collection, with the given status codes, one read per code.
+   * Listeners are not failed.
+   */
+  failReads(path:string, ...codes:Array<StatusCode>) {
+    this.readFailures.set(path, [...(this.readFailures.get(path) ?? []), ...codes])
+  }
+
+  /** @internal */
+  failRead(path:string) {
+    const code = this.readFailures.get(path)?.shift()
+    if (code !== undefined) {
+      throw statusError(code, `Injected failure reading ${path}`)
+    }
+  }
+
+  /** @internal */
+  readDocument(collectionPath:string, id:string):StoredDocument|null {
+    return this.collections.get(collectionPath)?.get(id) ?? null
+  }
+
+  /** @internal */
+  readCollection(collectionPath:string):Array<{collectionPath:string, id:string, document:StoredDocument}> {
+    const collection = this.collections.get(collectionPath)
+    if (!collection) {
+      return []
+    }
+    return [...collection.entries()].map(([id, document]) => ({collectionPath, id, document}))
+  }
+
+  /** @internal */
+  readCollectionGroup(collectionId:string):Array<{collectionPath:string, id:string, document:StoredDocument}> {
+    return [...this.collections.keys()]
+      .filter(collectionPath => collectionPath.split('/').pop() === collectionId)
+      .flatMap(collectionPath => this.readCollection(collectionPath))
+  }
+
+  /** @internal */
+  applyWrites(writes:Array<PendingWrite>):Array<InMemoryWriteResult> {
+    writes.forEach(write => {
+      const code = this.writeFailures.get(write.ref.path)?.shift()
+      if (code !== undefined) {
+        throw statusError(code, `Injected failure writing ${write.ref.path}`)
+      }
+    })
+    const commitTime = this.nextCommitTime()
+    const staged = new Map<string, StoredDocument|null>()
+    const read = (ref:InMemoryDocumentReference):StoredDocument|null => {
+      return staged.has(ref.path)
+        ? staged.get(ref.path) ?? null
+        : this.readDocument(ref.parent.path, ref.id)
+    }
+
+    writes.forEach(write => {
+      const existing = read(write.ref)
+      const next = this.applyWrite(write, existing, commitTime)
+      staged.set(write.ref.path, next)
+    })
+
+    staged.forEach((document, path) => {
+      const ref = this.doc(path)
+      if (!this.collections.has(ref.parent.path)) {
+        this.collections.set(ref.parent.path, new Map())
+      }
+      const collection = this.collections.get(ref.parent.path)!
+      if (document) {
+        collection.set(ref.id, document)
+      } else {
+        collection.delete(ref.id)
+      }
+    })
+
+    this.notifyListeners()
+    return writes.map(() => new InMemoryWriteResult(commitTime))
+  }
+
+  /**
+   * Listeners are called after every commit, each one works out for itself whether what it watches has changed.
+   * @internal
+   */
+  addListener(listener:() => void):() => void {
+    // like the Firestore client, snapshots are delivered in the async context the listener was added in, not the one of the write
+    const boundListener = AsyncResource.bind(listener)
+    this.listeners.add(boundListener)
+    return () => {
+      this.listeners.delete(boundListener)
+    }
+  }
+
+  // like Firestore, every commit gets a later time than the one before it, even within the same millisecond
+  private nextCommitTime():Timestamp {
+    const now = Timestamp.now()
+    const last = this.lastCommitTime
+    let commitTime = now
+    if (last && (now.seconds < last.seconds || (now.seconds === last.seconds && now.nanoseconds <= last.nanoseconds))) {
+      const nanoseconds = last.nanoseconds + 1000
+      commitTime = new Timestamp(last.seconds + Math.floor(nanoseconds / 1e9), nanoseconds % 1e9)
+    }
+    this.lastCommitTime = commitTime
+    return commitTime
+  }
+
+  private notifyListeners() {
+    // snapshots are delivered asynchronously, as they are by the Firestore client
+    this.listeners.forEach(listener => setImmediate(() => {
+      if (this.listeners.has(listener)) {
+        listener()
+      }
+    }))
+  }
+
+  private applyWrite(write:PendingWrite, existing:StoredDocument|null, commitTime:Timestamp):StoredDocument|null {
+    const next = (data:DocumentData):StoredDocument => ({
+      data,
+      createTime: existing?.createTime ?? commitTime,
+      updateTime: commitTime,
+      version: (existing?.version ?? 0) + 1,
+    })
+
+    switch (write.type) {
+      case "create":
+        if (existing) {
+          throw statusError(StatusCode.ALREADY_EXISTS, `Document already exists: ${write.ref.path}`)
+        }
+        return next(this.resolveValue(write.data, undefined, commitTime))
+      case "set":
+        if (write.merge) {
+          return next(this.mergeData(cloneValue(existing?.data ?? {}), write.data, commitTime))
+        }
+        return next(this.resolveValue(write.data, undefined, commitTime))
+      case "update": {
+        if (!existing) {
+          throw statusError(StatusCode.NOT_FOUND, `No document to update: ${write.ref.path}`)
+        }
+        const data = cloneValue(existing.data)
+        Object.keys(write.data).forEach(field => {
+          const value = write.data[field]
+          if (isFieldValue(value, 'FieldValue.delete')) {
+            deleteField(data, field)
+          } else {
+            setField(data, field, this.resolveValue(value, getField(data, field), commitTime))
+          }
+        })
+        return next(data)
+      }
+      case "delete":
+        return null
+    }
+  }
+
+  private mergeData(target:DocumentData, source:DocumentData, commitTime:Timestamp):DocumentData {
+    Object.keys(source).forEach(key => {
+      const value = source[key]
+      if (value === undefined && this.settings.ignoreUndefinedProperties) {
+        return
+      }
+      if (isFieldValue(value, 'FieldValue.delete')) {
+        delete target[key]
+      } else if (isPlainObject(value)) {
+        const nested = isPlainObject(target[key]) ? target[key] : {}
+        target[key] = this.mergeData(nested, value, commitTime)
+      } else {
+        target[key] = this.resolveValue(value, target[key], commitTime)
+      }
+    })
+    return target
+  }
+
+  private resolveValue(value:any, previous:any, commitTime:Timestamp):any {
+    if (value === undefined) {
+      if (this.settings.ignoreUndefinedProperties) {
+        return undefined
+      }
+      throw statusError(StatusCode.INVALID_ARGUMENT, 'Cannot use "undefined" as a Firestore value.')
+    }
+    if (value instanceof FieldValue) {
+      return this.resolveFieldValue(value, previous, commitTime)
+    }
+    if (value instanceof Date) {
+      return Timestamp.fromDate(value)
+    }
+    if (Array.isArray(value)) {
+      return value.map(element => this.resolveValue(element, undefined, commitTime))
+    }
+    if (isPlainObject(value)) {
+      const resolved:DocumentData = {}
+      Object.keys(value).forEach(key => {
+        if (isFieldValue(value[key], 'FieldValue.delete')) {
+          return
+        }
+        const resolvedValue = this.resolveValue(value[key], isPlainObject(previous) ? previous[key] : undefined, commitTime)
+        if (resolvedValue !== undefined) {
+          resolved[key] = resolvedValue
+        }
+      })
+      return resolved
+    }
+    return cloneValue(value)
+  }
+
+  private resolveFieldValue(value:FieldValue, previous:any, commitTime:Timestamp):any {
+    const methodName = (value as any).methodName
+    switch (methodName) {
+      case 'FieldValue.serverTimestamp':
+        return commitTime
+      case 'FieldValue.increment': {
+        const operand = (value as any).operand
+        return typeof previous === 'number' ? previous + operand : operand
+      }
+      case 'FieldValue.arrayUnion': {
+        const elements:Array<any> = (value as any).elements
+        const result = Array.isArray(previous) ? cloneValue(previous) : []
+        elements.forEach(element => {
+          if (!result.some((existing:any) => valuesEqual(existing, element))) {
+            result.push(cloneValue(element))
+          }
+        })
+        return result
+      }
+      case 'FieldValue.arrayRemove': {
+        const elements:Array<any> = (value as any).elements
+        const result = Array.isArray(previous) ? cloneValue(previous) : []
+        return result.filter((existing:any) => !elements.some(element => valuesEqual(existing, element)))
+      }
+      default:
+        throw statusError(StatusCode.INVALID_ARGUMENT, `Unsupported field value: ${methodName}`)
+    }
+  }
+
+}
+
+type PendingWrite =
+  | {type:"create", ref:InMemoryDocumentReference, data:DocumentData}
+  | {type:"set", ref:InMemoryDocumentReference, data:DocumentData, merge:boolean}
+  | {type:"update", ref:InMemoryDocumentReference, data:DocumentData}
+  | {type:"delete", ref:InMemoryDocumentReference}
+
+export class InMemoryWriteResult {
+  constructor(
+    readonly writeTime:Timestamp,
+  ) {}
+}
+
+export class InMemoryDocumentSnapshot {
+
+  constructor(
+    readonly ref:InMemoryDocumentReference,
+    private readonly document:StoredDocument|null,
+    readonly readTime:Timestamp,
+  ) {}
+
+  get id():string {
+    return this.ref.id
+  }
+
+  get exists():boolean {
+    return !!this.document
+  }
+
+  get createTime():Timestamp|undefined {
+    return this.document?.createTime
+  }
+
+  get updateTime():Timestamp|undefined {
+    return this.document?.updateTime
+  }
+
+  data():DocumentData|undefined {
+    return this.document ? cloneValue(this.document.data) : undefined
+  }
+
+  get(field:string|FieldPath):any {
+    return getField(this.document?.data, fieldPathToString(field))
+  }
+
+  /** @internal */
+  version():number {
+    return this.document?.version ?? 0
+  }
+
+}
+
+export type InMemoryDocumentChangeType = 'added'|'modified'|'removed'
+
+export interface InMemoryDocumentChange {
+  type:InMemoryDocumentChangeType,
+  doc:InMemoryDocumentSnapshot,
+  oldIndex:number,
+  newIndex:number,
+}
+
+export class InMemoryQuerySnapshot {
+
+  constructor(
+    readonly query:InMemoryQuery,
+    readonly docs:Array<InMemoryDocumentSnapshot>,
+    readonly readTime:Timestamp,
+    private readonly changes:Array<InMemoryDocumentChange>|null = null,
+  ) {}
+
+  docChanges():Array<InMemoryDocumentChange> {
+    if (this.changes) {
+      return this.changes
+    }
+    return this.docs.map((doc, newIndex) => ({type: 'added', doc, oldIndex: -1, newIndex}))
+  }
+
+  get size():number {
+    return this.docs.length
+  }
+
+  get empty():boolean {
+    return this.docs.length === 0
+  }
+
+  forEach(callback:(snapshot:InMemoryDocumentSnapshot) => void) {
+    this.docs.forEach(callback)
+  }
+
+}
+
+export class InMemoryQuery {
+
+  constructor(
+    readonly firestore:InMemoryFirestore,
+    protected readonly definition:QueryDefinition,
+  ) {}
+
+  where(filter:Filter):InMemoryQuery
+  where(field:string|FieldPath, op:WhereFilterOp, value:any):InMemoryQuery
+  where(fieldOrFilter:string|FieldPath|Filter, op?:WhereFilterOp, value?:any):InMemoryQuery {
+    const filter = fieldOrFilter instanceof Filter
+      ? toQueryFilter(fieldOrFilter)
+      : {field: fieldPathToString(fieldOrFilter), op: op!, value}
+    return this.withDefinition({
+      filters: [...this.definition.filters, filter],
+    })
+  }
+
+  orderBy(field:string|FieldPath, direction:Direction = 'asc'):InMemoryQuery {
+    return this.withDefinition({
+      orders: [...this.definition.orders, {field: fieldPathToString(field), direction}],
+    })
+  }
+
+  limit(limit:number):InMemoryQuery {
+    return this.withDefinition({limit, limitToLast: false})
+  }
+
+  limitToLast(limit:number):InMemoryQuery {
+    return this.withDefinition({limit, limitToLast: true})
+  }
+
+  startAfter(...snapshotOrValues:Array<any>):InMemoryQuery {
+    return this.withDefinition({startAt: this.createCursor(snapshotOrValues, false, 'startAfter')})
+  }
+
+  startAt(...snapshotOrValues:Array<any>):InMemoryQuery {
+    return this.withDefinition({startAt: this.createCursor(snapshotOrValues, true, 'startAt')})
+  }
+
+  endBefore(...snapshotOrValues:Array<any>):InMemoryQuery {
+    return this.withDefinition({endAt: this.createCursor(snapshotOrValues, false, 'endBefore')})
+  }
+
+  endAt(...snapshotOrValues:Array<any>):InMemoryQuery {
+    return this.withDefinition({endAt: this.createCursor(snapshotOrValues, true, 'endAt')})
+  }
+
+  async get():Promise<InMemoryQuerySnapshot> {
+    this.failRead()
+    return this.run()
+  }
+
+  count():InMemoryAggregateQuery {
+    return this.aggregate({count: AggregateField.count()})
+  }
+
+  /**
+   * Splits the documents matched by the query into partitions of about the same size, bounded by document references.
+   * Firestore only supports this on collection group queries.
+   */
+  async *getPartitions(desiredPartitionCount:number):AsyncIterable<InMemoryQueryPartition> {
+    if (desiredPartitionCount < 1) {
+      throw new Error(`Value for argument "desiredPartitionCount" must be within [1, Infinity] inclusive, but was: ${desiredPartitionCount}`)
+    }
+    if (!('collectionId' in this.definition.source)) {
+      throw statusError(StatusCode.INVALID_ARGUMENT, 'Partition queries are only supported on collection group queries.')
+    }
+    const documents = this.run().docs
+    const boundaries = new Array<InMemoryDocumentReference>()
+    for (let i = 1; i < desiredPartitionCount; i++) {
+      const boundary = documents[Math.floor(i * documents.length / desiredPartitionCount)]?.ref
+      if (boundary && !boundaries.some(existing => existing.isEqual(boundary))) {
+        boundaries.push(boundary)
+      }
+    }
+    for (let i = 0; i <= boundaries.length; i++) {
+      yield new InMemoryQueryPartition(
+        i > 0 ? [boundaries[i - 1]] : undefined,
+        i < boundaries.length ? [boundaries[i]] : undefined,
+      )
+    }
+  }
+
+  aggregate(aggregateSpec:{[alias:string]:AggregateField<any>}):InMemoryAggregateQuery {
+    return new InMemoryAggregateQuery(this, aggregateSpec)
+  }
+
+  onSnapshot(
+    onNext:(snapshot:InMemoryQuerySnapshot) => void,
+    onError?:(error:Error) => void,
+  ):() => void {
+    let previous:Array<InMemoryDocumentSnapshot>|null = null
+    let subscribed = true
+    const listener = () => {
+      try {
+        const snapshot = this.run()
+        const changes = previous ? diffSnapshots(previous, snapshot.docs) : snapshot.docChanges()
+        if (previous && changes.length === 0) {
+          return
+        }
+        previous = snapshot.docs
+        onNext(new InMemoryQuerySnapshot(this, snapshot.docs, snapshot.readTime, changes))
+      } catch (error:any) {
+        onError?.(error)
+      }
+    }
+    const removeListener = this.firestore.addListener(listener)
+    // the first snapshot is delivered later too, so is dropped if the listener is removed before then
+    setImmediate(() => {
+      if (subscribed) {
+        listener()
+      }
+    })
+    return () => {
+      subscribed = false
+      removeListener()
+    }
+  }
+
+  /** @internal */
+  failRead() {
+    const source = this.definition.source
+    this.firestore.failRead('collectionPath' in source ? source.collectionPath : source.collectionId)
+  }
+
+  /** @internal */
+  run():InMemoryQuerySnapshot {
+    const readTime = Timestamp.now()
+    const orders = this.effectiveOrders()
+    const source = this.definition.source
+    const storedDocuments = 'collectionPath' in source
+      ? this.firestore.readCollection(source.collectionPath)
+      : this.firestore.readCollectionGroup(source.collectionId)
+    let documents = storedDocuments
+      .map(({collectionPath, id, document}) => new InMemoryDocumentSnapshot(
+        new InMemoryDocumentReference(this.firestore, collectionPath, id),
+        document,
+        readTime,
+      ))
+      .filter(snapshot => this.definition.filters.every(filter => matchesFilter(snapshot, filter)))
+      .filter(snapshot => orders.every(order => order.field === DOCUMENT_ID || snapshot.get(order.field) !== undefined))
+      .sort((left, right) => this.compareSnapshots(orders, left, right))
+
+    const {startAt, endAt, limit, limitToLast} = this.definition
+    if (startAt) {
+      documents = documents.filter(snapshot => {
+        const comparison = this.compareToCursor(orders, snapshot, startAt)
+        return startAt.inclusive ? comparison >= 0 : comparison > 0
+      })
+    }
+    if (endAt) {
+      documents = documents.filter(snapshot => {
+        const comparison = this.compareToCursor(orders, snapshot, endAt)
+        return endAt.inclusive ? comparison <= 0 : comparison < 0
+      })
+    }
+    if (limit !== null) {
+      if (limitToLast && this.definition.orders.length === 0) {
+        throw new Error('limitToLast() queries require specifying at least one orderBy() clause.')
+      }
+      documents = limitToLast ? documents.slice(Math.max(documents.length - limit, 0)) : documents.slice(0, limit)
+    }
+    return new InMemoryQuerySnapshot(this, documents, readTime)
+  }
+
+  protected withDefinition(definition:Partial<QueryDefinition>):InMemoryQuery {
+    return new InMemoryQuery(this.firestore, {...this.definition, ...definition})
+  }
+
+  // Firestore implicitly orders by the first inequality field and always breaks ties by document name.
+  private effectiveOrders():Array<Order> {
+    const orders = this.definition.orders.slice()
+    if (orders.length === 0) {
+      const inequality = fieldFilters(this.definition.filters).find(filter => INEQUALITY_OPERATIONS.includes(filter.op))
+      if (inequality && inequality.field !== DOCUMENT_ID) {
+        orders.push({field: inequality.field, direction: 'asc'})
+      }
+    }
+    if (!orders.some(order => order.field === DOCUMENT_ID)) {
+      const lastDirection = orders.length > 0 ? orders[orders.length - 1].direction : 'asc'
+      orders.push({field: DOCUMENT_ID, direction: lastDirection})
+    }
+    return orders
+  }
+
+  private orderValue(snapshot:InMemoryDocumentSnapshot, field:string):any {
+    return field === DOCUMENT_ID ? snapshot.ref : snapshot.get(field)
+  }
+
+  private compareSnapshots(orders:Array<Order>, left:InMemoryDocumentSnapshot, right:InMemoryDocumentSnapshot):number {
+    for (const order of orders) {
+      const comparison = compareValues(this.orderValue(left, order.field), this.orderValue(right, order.field))
+      if (comparison !== 0) {
+        return order.direction === 'asc' ? comparison : -comparison
+      }
+    }
+    return 0
+  }
+
+  private compareToCursor(orders:Array<Order>, snapshot:InMemoryDocumentSnapshot, cursor:Cursor):number {
+    for (let i = 0; i < Math.min(orders.length, cursor.values.length); i++) {
+      const order = orders[i]
+      const cursorValue = order.field === DOCUMENT_ID ? toReferenceValue(snapshot.ref, cursor.values[i]) : cursor.values[i]
+      const comparison = compareValues(this.orderValue(snapshot, order.field), cursorValue)
+      if (comparison !== 0) {
+        return order.direction === 'asc' ? comparison : -comparison
+      }
+    }
+    return 0
+  }
+
+  private createCursor(snapshotOrValues:Array<any>, inclusive:boolean, methodName:string):Cursor {
+    const [snapshot] = snapshotOrValues
+    if (!(snapshot instanceof InMemoryDocumentSnapshot)) {
+      if (snapshotOrValues.length > this.definition.orders.length) {
+        throw new Error(`Too many cursor values specified for ${methodName}(). The specified values must match the orderBy() constraints of the query.`)
+      }
+      return {values: snapshotOrValues, inclusive}
+    }
+    if (!snapshot.exists) {
+      throw new Error(`Can't use a DocumentSnapshot that doesn't exist for ${methodName}().`)
+    }
+    const values = this.effectiveOrders().map(order => this.orderValue(snapshot, order.field))
+    return {values, inclusive}
+  }
+
+}
+
+export class InMemoryQueryPartition {
+
+  constructor(
+    readonly startAt:Array<InMemoryDocumentReference>|undefined,
+    readonly endBefore:Array<InMemoryDocumentReference>|undefined,
+  ) {}
+
+}
+
+export class InMemoryAggregateQuerySnapshot {
+
+  constructor(
+    readonly query:InMemoryAggregateQuery,
+    private readonly aggregates:{[alias:string]:number|null},
+    readonly readTime:Timestamp,
+  ) {}
+
+  data():{[alias:string]:number|null} {
+    return {...this.aggregates}
+  }
+
+}
+
+export class InMemoryAggregateQuery {
+
+  constructor(
+    readonly query:InMemoryQuery,
+    private readonly aggregateSpec:{[alias:string]:AggregateField<any>},
+  ) {}
+
+  async get():Promise<InMemoryAggregateQuerySnapshot> {
+    this.query.failRead()
+    const snapshot = this.query.run()
+    const aggregates:{[alias:string]:number|null} = {}
+    Object.keys(this.aggregateSpec).forEach(alias => {
+      const aggregateField = this.aggregateSpec[alias]
+      if (aggregateField.aggregateType === 'count') {
+        aggregates[alias] = snapshot.size
+        return
+      }
+      // sum and average ignore values that are not numbers
+      const field = fieldPathToString((aggregateField as any)._field)
+      const values:Array<number> = snapshot.docs
+        .map(doc => doc.get(field))
+        .filter(value => typeof value === 'number')
+      const sum = values.reduce((total, value) => total + value, 0)
+      if (aggregateField.aggregateType === 'sum') {
+        aggregates[alias] = sum
+      } else {
+        aggregates[alias] = values.length > 0 ? sum / values.length : null
+      }
+    })
+    return new InMemoryAggregateQuerySnapshot(this, aggregates, snapshot.readTime)
+  }
+
+}
+
+export class InMemoryCollectionReference extends InMemoryQuery {
+
+  constructor(
+    firestore:InMemoryFirestore,
+    readonly path:string,
+  ) {
+    super(firestore, {
+      source: {collectionPath: path},
+      filters: [],
+      orders: [],
+      limit: null,
+      limitToLast: false,
+      startAt: null,
+      endAt: null,
+    })
+  }
+
+  get id():string {
+    const segments = this.path.split('/')
+    return segments[segments.length - 1]
+  }
+
+  get parent():InMemoryDocumentReference|null {
+    const segments = this.path.split('/')
+    if (segments.length < 2) {
+      return null
+    }
+    return this.firestore.doc(segments.slice(0, -1).join('/'))
+  }
+
+  doc(id:string = autoId()):InMemoryDocumentReference {
+    return new InMemoryDocumentReference(this.firestore, this.path, id)
+  }
+
+}
+
+export class InMemoryDocumentReference {
+
+  constructor(
+    readonly firestore:InMemoryFirestore,
+    private readonly collectionPath:string,
+    readonly id:string,
+  ) {}
+
+  get path():string {
+    return `${this.collectionPath}/${this.id}`
+  }
+
+  get parent():InMemoryCollectionReference {
+    return new InMemoryCollectionReference(this.firestore, this.collectionPath)
+  }
+
+  collection(collectionPath:string):InMemoryCollectionReference {
+    return new InMemoryCollectionReference(this.firestore, `${this.path}/${collectionPath}`)
+  }
+
+  isEqual(other:InMemoryDocumentReference):boolean {
+    return other instanceof InMemoryDocumentReference && other.path === this.path
+  }
+
+  async get():Promise<InMemoryDocumentSnapshot> {
+    this.firestore.failRead(this.path)
+    return this.snapshot()
+  }
+
+  onSnapshot(
+    onNext:(snapshot:InMemoryDocumentSnapshot) => void,
+    onError?:(error:Error) => void,
+  ):() => void {
+    let previousVersion:number|null = null
+    let subscribed = true
+    const listener = () => {
+      try {
+        const snapshot = this.snapshot()
+        if (previousVersion === snapshot.version()) {
+          return
+        }
+        previousVersion = snapshot.version()
+        onNext(snapshot)
+      } catch (error:any) {
+        onError?.(error)
+      }
+    }
+    const removeListener = this.firestore.addListener(listener)
+    // the first snapshot is delivered later too, so is dropped if the listener is removed before then
+    setImmediate(() => {
+      if (subscribed) {
+        listener()
+      }
+    })
+    return () => {
+      subscribed = false
+      removeListener()
+    }
+  }
+
+  async create(data:DocumentData):Promise<InMemoryWriteResult> {
+    return this.write({type: "create", ref: this, data})
+  }
+
+  async set(data:DocumentData, options?:{merge?:boolean}):Promise<InMemoryWriteResult> {
+    return this.write({type: "set", ref: this, data, merge: !!options?.merge})
+  }
+
+  async update(data:DocumentData):Promise<InMemoryWriteResult> {
+    return this.write({type: "update", ref: this, data})
+  }
+
+  async delete():Promise<InMemoryWriteResult> {
+    return this.write({type: "delete", ref: this})
+  }
+
+  /** @internal */
+  snapshot():InMemoryDocumentSnapshot {
+    return new InMemoryDocumentSnapshot(this, this.firestore.readDocument(this.collectionPath, this.id), Timestamp.now())
+  }
+
+  private write(write:PendingWrite):InMemoryWriteResult {
+    const [result] = this.firestore.applyWrites([write])
+    return result
+  }
+
+}
+
+export class InMemoryWriteBatch {
+
+  private readonly writes:Array<PendingWrite> = []
+  private committed = false
+
+  constructor(
+    private readonly firestore:InMemoryFirestore,
+  ) {}
+
+  create(ref:InMemoryDocumentReference, data:DocumentData):InMemoryWriteBatch {
+    this.writes.push({type: "create", ref, data})
+    return this
+  }
+
+  set(ref:InMemoryDocumentReference, data:DocumentData, options?:{merge?:boolean}):InMemoryWriteBatch {
+    this.writes.push({type: "set", ref, data, merge: !!options?.merge})
+    return this
+  }
+
+  update(ref:InMemoryDocumentReference, data:DocumentData):InMemoryWriteBatch {
+    this.writes.push({type: "update", ref, data})
+    return this
+  }
+
+  delete(ref:InMemoryDocumentReference):InMemoryWriteBatch {
+    this.writes.push({type: "delete", ref})
+    return this
+  }
+
+  async commit():Promise<Array<InMemoryWriteResult>> {
+    if (this.committed) {
+      throw new Error('Cannot modify a WriteBatch that has been committed.')
+    }
+    this.committed = true
+    return this.firestore.applyWrites(this.writes)
+  }
+
+}
+
+export class InMemoryBulkWriterError extends Error {
+
+  constructor(
+    readonly code:StatusCode,
+    message:string,
+    readonly documentRef:InMemoryDocumentReference,
+    readonly operationType:'create'|'set'|'update'|'delete',
+    readonly failedAttempts:number,
+  ) {
+    super(message)
+  }
+
+}
+
+/**
+ * Like the real BulkWriter, writes are applied on their own rather than atomically,
+ * and each write is retried with a backoff for as long as the error handler returns true.
+ */
+export class InMemoryBulkWriter {
+
+  private readonly pending = new Set<Promise<void>>()
+  private errorHandler:(error:InMemoryBulkWriterError) => boolean = error =>
+    BULK_WRITER_RETRY_CODES.includes(error.code) && error.failedAttempts < MAX_BULK_WRITER_ATTEMPTS
+  private resultHandler:((documentRef:InMemoryDocumentReference, result:InMemoryWriteResult) => void)|null = null
+  private closed = false
+
+  constructor(
+    private readonly firestore:InMemoryFirestore,
+  ) {}
+
+  create(ref:InMemoryDocumentReference, data:DocumentData):Promise<InMemoryWriteResult> {
+    return this.enqueue({type: "create", ref, data})
+  }
+
+  set(ref:InMemoryDocumentReference, data:DocumentData, options?:{merge?:boolean}):Promise<InMemoryWriteResult> {
+    return this.enqueue({type: "set", ref, data, merge: !!options?.merge})
+  }
+
+  update(ref:InMemoryDocumentReference, data:DocumentData):Promise<InMemoryWriteResult> {
+    return this.enqueue({type: "update", ref, data})
+  }
+
+  delete(ref:InMemoryDocumentReference):Promise<InMemoryWriteResult> {
+    return this.enqueue({type: "delete", ref})
+  }
+
+  onWriteError(handler:(error:InMemoryBulkWriterError) => boolean) {
+    this.errorHandler = handler
+  }
+
+  onWriteResult(handler:(documentRef:InMemoryDocumentReference, result:InMemoryWriteResult) => void) {
+    this.resultHandler = handler
+  }
+
+  async flush():Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending))
+    }
+  }
+
+  async close():Promise<void> {
+    this.closed = true
+    await this.flush()
+  }
+
+  private enqueue(write:PendingWrite):Promise<InMemoryWriteResult> {
+    if (this.closed) {
+      throw new Error('BulkWriter has already been closed.')
+    }
+    const result = this.execute(write)
+    // failures are reported through the returned promise, flush only waits for the write to settle
+    const settled = result.then(() => undefined, () => undefined)
+    this.pending.add(settled)
+    settled.then(() => this.pending.delete(settled))
+    return result
+  }
+
+  private async execute(write:PendingWrite):Promise<InMemoryWriteResult> {
+    let failedAttempts = 0
+    while (true) {
+      // writes are sent asynchronously, as they are by the real client
+      await new Promise(resolve => setImmediate(resolve))
+      try {
+        const [result] = this.firestore.applyWrites([write])
+        this.resultHandler?.(write.ref, result)
+        return result
+      } catch (error:any) {
+        failedAttempts++
+        const bulkWriterError = new InMemoryBulkWriterError(error.code, error.message, write.ref, write.type, failedAttempts)
+        if (!this.errorHandler(bulkWriterError)) {
+          throw bulkWriterError
+        }
+        const backoffMillis = Math.min(BULK_WRITER_BACKOFF_INITIAL_MILLIS * 2 ** (failedAttempts - 1), BULK_WRITER_BACKOFF_MAX_MILLIS)
+        await new Promise(resolve => setTimeout(resolve, backoffMillis))
+      }
+    }
+  }
+
+}
+
+export class InMemoryTransaction {
+
+  private readonly writes:Array<PendingWrite> = []
+  private readonly readVersions = new Map<string, number>()
+
+  constructor(
+    private readonly firestore:InMemoryFirestore,
+  ) {}
+
+  async get(refOrQuery:InMemoryDocumentReference):Promise<InMemoryDocumentSnapshot>
+  async get(refOrQuery:InMemoryQuery):Promise<InMemoryQuerySnapshot>
+  async get(refOrQuery:InMemoryDocumentReference|InMemoryQuery):Promise<InMemoryDocumentSnapshot|InMemoryQuerySnapshot> {
+    if (this.writes.length > 0) {
+      throw new Error('Firestore transactions require all reads to be executed before all writes.')
+    }
+    if (refOrQuery instanceof InMemoryDocumentReference) {
+      this.firestore.failRead(refOrQuery.path)
+      const snapshot = refOrQuery.snapshot()
+      this.readVersions.set(refOrQuery.path, snapshot.version())
+      return snapshot
+    }
+    refOrQuery.failRead()
+    const querySnapshot = refOrQuery.run()
+    querySnapshot.docs.forEach(snapshot => this.readVersions.set(snapshot.ref.path, snapshot.version()))
+    return querySnapshot
+  }
+
+  async getAll(...refs:Array<InMemoryDocumentReference>):Promise<Array<InMemoryDocumentSnapshot>> {
+    return Promise.all(refs.map(ref => this.get(ref)))
+  }
+
+  create(ref:InMemoryDocumentReference, data:DocumentData):InMemoryTransaction {
+    this.writes.push({type: "create", ref, data})
+    return this
+  }
+
+  set(ref:InMemoryDocumentReference, data:DocumentData, options?:{merge?:boolean}):InMemoryTransaction {
+    this.writes.push({type: "set", ref, data, merge: !!options?.merge})
+    return this
+  }
+
+  update(ref:InMemoryDocumentReference, data:DocumentData):InMemoryTransaction {
+    this.writes.push({type: "update", ref, data})
+    return this
+  }
+
+  delete(ref:InMemoryDocumentReference):InMemoryTransaction {
+    this.writes.push({type: "delete", ref})
+    return this
+  }
+
+  /** @internal */
+  hasConflicts():boolean {
+    return [...this.readVersions.entries()].some(([path, version]) => {
+      return this.firestore.doc(path).snapshot().version() !== version
+    })
+  }
+
+  /** @internal */
+  async commit():Promise<Array<InMemoryWriteResult>> {
+    return this.firestore.applyWrites(this.writes)
+  }
+
+}
@@ -1,38 +1,170 @@
-import {CollectionReference, FieldValue, Firestore, Timestamp, WhereFilterOp} from "@google-cloud/firestore";
+import {
+  AggregateField,
+  CollectionReference,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  FieldPath,
+  FieldValue,
+  Filter as FirestoreFilter,
+  Firestore,
+  QueryDocumentSnapshot,
+  Timestamp,
+  WhereFilterOp,
+} from "@google-cloud/firestore";
 import {uuid} from "./uuid";
 import {promiseChainExecutor} from "promise-chain-executor";
 import chunk from "lodash.chunk";
 import flatten from "lodash.flatten"
+import {InMemoryFirestore} from "./in-memory-firestore";
+import {mapWithConcurrency} from "./concurrency";
+import {CacheOptions, CacheStore, DEFAULT_CACHE_TTL_MILLIS, LruCacheStore} from "./cache";
+import {HookContext, RepositoryHooks, runHooks, runTransformHooks} from "./hooks";
+import {
+  applyWrite,
+  AuditOperation,
+  AuditOptions,
+  DEFAULT_HISTORY_COLLECTION_NAME,
+  diffFields,
+  HistoryRecord,
+  WriteMode,
+} from "./audit";
+import {EntityValidator, validate} from "./validation";
+import {ConcurrentModificationError, EntityNotFoundError, isTransientError, MissingTenantError, TenantAccessError} from "./errors";
+import {TransactionalRepository, TransactionScope} from "./transaction";
+import {decodePageCursor, encodePageCursor, Page, PageOptions} from "./pagination";
+import {ParallelCollectionIterator} from "./parallel-iterator";
+import {QueryBuilder} from "./query-builder";
+import {splitTransforms, toFieldValues, UpdateFields} from "./field-transform";
+import {composeConverters, EntityConverter} from "./converter";
+import {EncryptionOptions, FieldEncryptor} from "./encryption";
+import {DEFAULT_TENANT_COLLECTION_PATH, DEFAULT_TENANT_FIELD, TenancyOptions} from "./tenancy";
+import {callWithRetry, RetryPolicy} from "./retry";
+import {cloneValue, isPlainObject} from "./plain-object";
+import {Instrumentation, queryShape, TelemetryOptions} from "./telemetry";
+import {
+  decodeRow,
+  DEFAULT_IMPORT_BATCH_SIZE,
+  encodeRow,
+  ExportOptions,
+  ImportMode,
+  ImportOptions,
+  ImportResult,
+  ImportRow,
+  readLines,
+  writeLine,
+} from "./ndjson";
+import {
+  BulkWriteOptions,
+  BulkWriteResult,
+  DEFAULT_BULK_WRITE_MAX_ATTEMPTS,
+  DEFAULT_BULK_WRITE_MAX_PENDING_WRITES,
+} from "./bulk";
+
+export * from "./in-memory-firestore";
+export * from "./errors";
+export {Validator, EntityValidator} from "./validation";
+export * from "./transaction";
+export {Page, PageOptions} from "./pagination";
+export * from "./cache";
+export {RepositoryHooks, HookContext} from "./hooks";
+export {AuditOperation, AuditOptions, FieldChange, HistoryRecord} from "./audit";
+export * from "./migration";
+export * from "./parallel-iterator";
+export * from "./query-builder";
+export {FieldTransform, FieldTransformKind, UpdateFields, UpdateValue} from "./field-transform";
+export {ExportOptions, ImportFailure, ImportMode, ImportOptions, ImportProgress, ImportResult} from "./ndjson";
+export {BulkThrottling, BulkWriteFailure, BulkWriteOptions, BulkWriteResult} from "./bulk";
+export * from "./converter";
+export {EncryptedField, EncryptionKeyProvider, EncryptionOptions, staticKeyProvider} from "./encryption";
+export * from "./tenancy";
+export {
+  DEFAULT_RETRY_INITIAL_DELAY_MILLIS,
+  DEFAULT_RETRY_JITTER,
+  DEFAULT_RETRY_MAX_ATTEMPTS,
+  DEFAULT_RETRY_MAX_DELAY_MILLIS,
+  DEFAULT_RETRY_MULTIPLIER,
+  RetryPolicy,
+  retryDelay,
+  withRetry,
+} from "./retry";
+export {
+  CollectionSummary,
+  LatencySummary,
+  OperationPricing,
+  OperationSummary,
+  queryShape,
+  SpanAttributeValue,
+  StatsAggregator,
+  TelemetryOptions,
+  TelemetrySpan,
+  TelemetryTracer,
+} from "./telemetry";
 
 export type Create<T> = Omit<T, keyof Entity>
-export type Update<T> = Partial<Omit<T, keyof Entity>>
+export type Update<T> = UpdateFields<Omit<T, keyof Entity>>
 
-export interface BatchUpdate<T extends Entity> {
+export interface BatchUpdate<T extends AnyEntity> {
   id:string,
-  update:Update<T>|object
+  update:Update<T>,
+  expectedVersion?:number,
 }
 
-export interface Entity {
+/**
+ * The fields the repository keeps on every entity, the timestamps are read as Dates when using the `timestampToDateConverter`.
+ */
+export interface Entity<Time extends Timestamp|Date = Timestamp> {
   id:string,
-  createdAt:Timestamp,
-  updatedAt:Timestamp,
+  createdAt:Time,
+  updatedAt:Time,
+  deletedAt?:Time|null,
+  version?:number,
 }
 
+export type AnyEntity = Entity<Timestamp|Date>
+
 export interface RepositoryOperationStats {
   collectionName:string,
+  collectionPath?:string,
   numberOfReads?:number,
   numberOfWrites?:number,
   numberOfDeletes?:number,
+  numberOfCacheHits?:number,
+  numberOfCacheMisses?:number,
+  numberOfRetries?:number,
+  method?:string,
+  queryShape?:string,
+  durationMillis?:number,
+  resultSize?:number,
+  status?:'ok'|'error',
+  errorName?:string,
 }
 
 export interface FirestoreOptions<T> {
   idGenerator?:(create:Create<T>) => string,
   opStatHandler?:(stats:RepositoryOperationStats) => void,
+  validator?:EntityValidator<T>,
+  softDelete?:boolean,
+  versioning?:boolean,
+  cache?:CacheOptions<T>,
+  hooks?:Array<RepositoryHooks<T>>,
+  audit?:AuditOptions,
+  converter?:EntityConverter,
+  encryption?:EncryptionOptions,
+  tenancy?:TenancyOptions,
+  retry?:RetryPolicy,
+  telemetry?:TelemetryOptions,
 }
 
 export const DEFAULT_ID_GENERATOR = <T>(create:Create<T>):string => uuid()
 export const MAX_ALLOWED_IN_IN_CLAUSE = 10;
+export const GET_ALL_BATCH_SIZE = 100;
+export const DEFAULT_GET_ALL_CONCURRENCY = 10;
 export const BATCH_SIZE = 500;
+export const DELETED_AT_FIELD = "deletedAt";
+export const VERSION_FIELD = "version";
+export const AGGREGATION_ENTRIES_PER_READ = 1000;
+const PURGE_QUERY_SHAPE = queryShape([{field: DELETED_AT_FIELD, operation: "<", value: null}]);
 
 export interface Query<T> {
   field:Extract<keyof T, string>|string,
@@ -40,6 +172,16 @@ export interface Query<T> {
   value:any,
 }
 
+/**
+ * Matches entities that match any (`or`) or all (`and`) of the nested queries.
+ */
+export interface CompositeQuery<T> {
+  operator:'or'|'and',
+  queries:Array<QueryFilter<T>>,
+}
+
+export type QueryFilter<T> = Query<T>|CompositeQuery<T>
+
 export enum SortOrder {
   ASC = 'asc',
   DESC = 'desc',
@@ -55,24 +197,263 @@ export interface QueryOptions<T> {
   sort?:Array<Sort<T>>,
   startAfterId?:string,
   startAtId?:string,
+  includeDeleted?:boolean,
+}
+
+export interface ReadOptions {
+  includeDeleted?:boolean,
+}
+
+export interface GetManyByIdOptions extends ReadOptions {
+  batchSize?:number,
+  concurrency?:number,
+}
+
+export interface GetManyByIdResult<T> {
+  found:Array<T>,
+  missingIds:Array<string>,
+}
+
+export interface UpdateOptions {
+  expectedVersion?:number,
+}
+
+/**
+ * Whether `upsert` or `createIfAbsent` created the document. When it was not created,
+ * `upsert` updated it and `createIfAbsent` left it as it was.
+ */
+export interface UpsertResult {
+  id:string,
+  created:boolean,
+}
+
+export type WithParentPath<T> = T & {parentPath:string}
+
+export type Aggregation<T> =
+  | {operation:'count'}
+  | {operation:'sum', field:Extract<keyof T, string>|string}
+  | {operation:'average', field:Extract<keyof T, string>|string}
+
+export type AggregationResult<A> = {
+  [K in keyof A]:A[K] extends {operation:'average'} ? number|null : number
+}
+
+export type Unsubscribe = () => void
+
+export interface EntityChanges<T> {
+  entities:Array<T>,
+  added:Array<T>,
+  modified:Array<T>,
+  removed:Array<T>,
+}
+
+// the write methods shared by Transaction and WriteBatch
+interface DocumentWriter {
+  create(documentRef:DocumentReference<any>, data:any):unknown,
+  set(documentRef:DocumentReference<any>, data:any, options:{merge:boolean}):unknown,
+  update(documentRef:DocumentReference<any>, data:any):unknown,
+  delete(documentRef:DocumentReference<any>):unknown,
+}
+
+interface WriteCounts {
+  numberOfWrites?:number,
+  numberOfDeletes?:number,
+}
+
+interface BulkWriteItem {
+  id:string,
+  operation:AuditOperation,
+  mode:WriteMode,
+  data:DocumentData|null,
+  before:DocumentData|null,
+}
+
+const sumWriteCounts = (counts:Array<WriteCounts>):WriteCounts => {
+  const numberOfWrites = counts.reduce((total, count) => total + (count.numberOfWrites ?? 0), 0)
+  const numberOfDeletes = counts.reduce((total, count) => total + (count.numberOfDeletes ?? 0), 0)
+  if (numberOfDeletes === 0) {
+    return {numberOfWrites}
+  }
+  return numberOfWrites === 0 ? {numberOfDeletes} : {numberOfWrites, numberOfDeletes}
+}
+
+export interface QueryableRepository<T> {
+  getMany(queries:Array<QueryFilter<T>>, queryOptions?:QueryOptions<T>|null):Promise<Array<T>>,
+}
+
+const toFirestoreFilter = <T>(query:QueryFilter<T>):FirestoreFilter => {
+  if (!('queries' in query)) {
+    return FirestoreFilter.where(query.field, query.operation, query.value)
+  }
+  const filters = query.queries.map(toFirestoreFilter)
+  return query.operator === 'or' ? FirestoreFilter.or(...filters) : FirestoreFilter.and(...filters)
+}
+
+// encrypted fields are encrypted closest to the store, after any other conversion
+const entityConverter = (converter:EntityConverter|undefined, encryptor:FieldEncryptor|null):EntityConverter|null => {
+  const converters = [converter, encryptor?.converter()].filter((candidate):candidate is EntityConverter => !!candidate)
+  return converters.length > 1 ? composeConverters(...converters) : converters[0] ?? null
+}
+
+const encryptQueries = <T>(encryptor:FieldEncryptor|null, queries:Array<QueryFilter<T>>):Array<QueryFilter<T>> => {
+  return encryptor ? encryptor.encryptQueries(queries) : queries
+}
+
+const buildQuery = async <T>(
+  root:FirebaseFirestore.Query,
+  queries:Array<QueryFilter<T>>,
+  queryOptions:QueryOptions<T>|null,
+  getCursorSnapshot:(id:string) => Promise<FirebaseFirestore.DocumentSnapshot>,
+):Promise<FirebaseFirestore.Query> => {
+  let reference:FirebaseFirestore.Query = root;
+  queries.forEach((query:QueryFilter<T>) => {
+    reference = 'queries' in query
+      ? reference.where(toFirestoreFilter(query))
+      : reference.where(query.field, query.operation, query.value);
+  })
+  if (queryOptions && queryOptions.sort && queryOptions.sort.length > 0) {
+    queryOptions.sort.forEach(sort => {
+      reference = reference.orderBy(sort.field, sort.order);
+    });
+  }
+  if (queryOptions && queryOptions.limit) {
+    reference = reference.limit(queryOptions.limit);
+  }
+  if (queryOptions && queryOptions.startAfterId) {
+    const startAfterSnapshot = await getCursorSnapshot(queryOptions.startAfterId);
+    reference = reference.startAfter(startAfterSnapshot);
+  }
+  if (queryOptions && queryOptions.startAtId) {
+    const endAtSnapshot = await getCursorSnapshot(queryOptions.startAtId);
+    reference = reference.startAt(endAtSnapshot);
+  }
+  return reference
+}
+
+const incrementsAnyField = (data:DocumentData|null):boolean => {
+  return !!data && Object.values(data).some(value => value instanceof FieldValue
+    ? (<any>value).methodName === 'FieldValue.increment'
+    : isPlainObject(value) && incrementsAnyField(value)
+  )
+}
+
+const softDeleteQueries = <T>(softDelete:boolean|undefined, queryOptions:QueryOptions<T>|null):Array<Query<T>> => {
+  return softDelete && !queryOptions?.includeDeleted
+    ? [{field: DELETED_AT_FIELD, operation: "==", value: null}]
+    : []
+}
+
+const tenantIdOf = (tenancy:TenancyOptions|undefined, collectionName:string):string => {
+  const tenantId = tenancy?.tenantProvider?.()
+  if (!tenantId) {
+    throw new MissingTenantError(collectionName)
+  }
+  return tenantId
+}
+
+// the field the tenant is kept in, or null if tenants are not kept in a field
+const tenantFieldOf = (tenancy:TenancyOptions|undefined):string|null => {
+  return tenancy && (tenancy.strategy ?? 'field') === 'field' ? tenancy.tenantField ?? DEFAULT_TENANT_FIELD : null
+}
+
+const tenantQueries = <T>(tenancy:TenancyOptions|undefined, collectionName:string):Array<Query<T>> => {
+  const tenantField = tenantFieldOf(tenancy)
+  return tenantField ? [{field: tenantField, operation: "==", value: tenantIdOf(tenancy, collectionName)}] : []
 }
 
-export class FirestoreCrudRepository<T extends Entity> {
+export class FirestoreCrudRepository<T extends AnyEntity> {
 
-  private readonly collection:CollectionReference<any>;
+  private readonly firestore:Firestore;
+  private readonly rootCollection:CollectionReference<any>;
+  private readonly cacheStore:CacheStore<T>|null;
+  private readonly hooks:Array<RepositoryHooks<T>>;
+  private readonly encryptor:FieldEncryptor|null;
+  private readonly converter:EntityConverter|null;
+  private readonly instrumentation:Instrumentation;
 
+  /**
+   * Pass an InMemoryFirestore instead of a Firestore client to run the repository against an in-memory backend.
+   */
   constructor(
-    private readonly firestore:Firestore,
+    firestore:Firestore|InMemoryFirestore,
     private readonly collectionName:string,
     private readonly options?:FirestoreOptions<T>,
   ) {
-    this.collection = firestore.collection(collectionName)
+    this.firestore = firestore instanceof InMemoryFirestore ? firestore.asFirestore() : firestore
+    this.rootCollection = this.firestore.collection(collectionName)
+    this.cacheStore = options?.cache ? options.cache.store ?? new LruCacheStore<T>() : null
+    this.hooks = [...(options?.hooks ?? [])]
+    this.encryptor = options?.encryption ? new FieldEncryptor(collectionName, options.encryption, this.firestore) : null
+    this.converter = entityConverter(options?.converter, this.encryptor)
+    this.instrumentation = new Instrumentation(options, () => ({collectionName: this.collection.id, collectionPath: this.collection.path}))
+  }
+
+  /**
+   * Registers hooks to run after any already registered, returns a function that removes them again.
+   */
+  addHooks(hooks:RepositoryHooks<T>):Unsubscribe {
+    this.hooks.push(hooks)
+    return () => {
+      const index = this.hooks.indexOf(hooks)
+      if (index >= 0) {
+        this.hooks.splice(index, 1)
+      }
+    }
   }
 
   getFirebaseCollection():CollectionReference<any> {
     return this.collection
   }
 
+  /**
+   * The tenant this repository is scoped to, given by the `tenantProvider`, or null if tenancy is not configured.
+   */
+  getTenantId():string|null {
+    return this.options?.tenancy ? this.tenantId() : null
+  }
+
+  // with a collection per tenant, the collection is only known once the tenant is
+  private get collection():CollectionReference<any> {
+    const tenancy = this.options?.tenancy
+    if (tenancy?.strategy !== 'collection') {
+      return this.rootCollection
+    }
+    const collectionPath = tenancy.collectionPath ?? DEFAULT_TENANT_COLLECTION_PATH
+    return this.firestore.collection(collectionPath(this.tenantId(), this.collectionName))
+  }
+
+  /**
+   * Returns a repository scoped to the given tenant, with the same options and hooks as this one.
+   */
+  forTenant(tenantId:string):FirestoreCrudRepository<T> {
+    if (!this.options?.tenancy) {
+      throw new Error(`Tenancy is not configured for ${this.collectionName}`)
+    }
+    return new FirestoreCrudRepository<T>(this.firestore, this.collectionName, {
+      ...this.options,
+      hooks: [...this.hooks],
+      tenancy: {...this.options.tenancy, tenantProvider: () => tenantId},
+    })
+  }
+
+  /**
+   * Returns a repository for the subcollection with the given name under the document with the given ID.
+   * It uses this repository's opStatHandler unless other options are given, and always this repository's tenant.
+   */
+  subcollection<C extends AnyEntity>(
+    parentId:string,
+    subcollectionName:string,
+    options:FirestoreOptions<C> = {opStatHandler: this.options?.opStatHandler},
+  ):FirestoreCrudRepository<C> {
+    // with a collection per tenant, the path is already the tenant's, otherwise the subcollection is scoped by the same field
+    const tenancy = this.tenantField() !== null ? this.options?.tenancy : options.tenancy
+    return new FirestoreCrudRepository<C>(
+      this.firestore,
+      `${this.collection.path}/${parentId}/${subcollectionName}`,
+      {...options, tenancy},
+    )
+  }
+
   private generateId(create:Create<T>):string {
     if (this.options?.idGenerator) {
       return this.options.idGenerator(create)
@@ -80,207 +461,1500 @@ export class FirestoreCrudRepository<T extends Entity> {
     return DEFAULT_ID_GENERATOR(create)
   }
 
-  private batchIds(ids:Array<string>):Array<Array<string>> {
-    return chunk<string>(ids, MAX_ALLOWED_IN_IN_CLAUSE);
+  private isSoftDeleteEnabled():boolean {
+    return !!this.options?.softDelete
+  }
+
+  private isHidden(data:any, options?:ReadOptions|null):boolean {
+    return this.isSoftDeleteEnabled() && !options?.includeDeleted && !!data[DELETED_AT_FIELD]
+  }
+
+  private tenantId():string {
+    return tenantIdOf(this.options?.tenancy, this.collectionName)
+  }
+
+  private tenantField():string|null {
+    return tenantFieldOf(this.options?.tenancy)
+  }
+
+  private tenantQueries():Array<Query<T>> {
+    return tenantQueries<T>(this.options?.tenancy, this.collectionName)
+  }
+
+  private checkTenant(id:string, data:DocumentData|null|undefined) {
+    const tenantField = this.tenantField()
+    if (!tenantField || !data) {
+      return
+    }
+    const tenantId = this.tenantId()
+    if (data[tenantField] !== tenantId) {
+      throw new TenantAccessError(this.collectionName, id, tenantId)
+    }
+  }
+
+  // documents are read before they are written when the change is audited, or when they have to be checked against the tenant
+  private readsBeforeWrite():boolean {
+    return this.isAuditEnabled() || this.tenantField() !== null
+  }
+
+  private isVersioningEnabled():boolean {
+    return !!this.options?.versioning
+  }
+
+  private checkVersion(id:string, data:any, expectedVersion:number|undefined) {
+    if (expectedVersion === undefined) {
+      return
+    }
+    const actualVersion:number|null = data ? data[VERSION_FIELD] ?? 0 : null
+    if (actualVersion !== expectedVersion) {
+      throw new ConcurrentModificationError(this.collectionName, id, expectedVersion, actualVersion)
+    }
   }
 
   private onRepoOperation(stat:Omit<RepositoryOperationStats, "collectionName">) {
-    if (this.options?.opStatHandler) {
-      this.options.opStatHandler({
-        collectionName: this.collectionName,
-        ...stat
-      })
+    this.instrumentation.report(stat)
+  }
+
+  /**
+   * Makes a call to Firestore for the given method, wrapping its errors in the matching RepositoryError.
+   * Transient failures are retried under the retry policy, but only when the call is idempotent, so that repeating it cannot apply a change twice.
+   */
+  private async call<R>(method:string, ids:Array<string>, idempotent:boolean, action:() => Promise<R>):Promise<R> {
+    return callWithRetry(
+      idempotent ? this.options?.retry ?? null : null,
+      {collectionName: this.collectionName, ids, operation: method},
+      action,
+      () => this.onRepoOperation({numberOfRetries: 1}),
+    )
+  }
+
+  private hooksFor<K extends keyof RepositoryHooks<T>>(name:K):Array<NonNullable<RepositoryHooks<T>[K]>> {
+    return this.hooks
+      .map(hooks => hooks[name])
+      .filter((hook):hook is NonNullable<RepositoryHooks<T>[K]> => !!hook)
+  }
+
+  private hookContext(method:string):HookContext {
+    return {collectionName: this.collection.id, collectionPath: this.collection.path, method}
+  }
+
+  // every value goes through the before hooks before any are written, so a hook that throws stops the whole call
+  private async beforeCreate(creates:Array<Create<T>>, method:string):Promise<Array<Create<T>>> {
+    const context = this.hookContext(method)
+    const hooks = this.hooksFor('beforeCreate').map(hook => (create:Create<T>) => hook(create, context))
+    const results = new Array<Create<T>>()
+    for (const create of creates) {
+      results.push(await runTransformHooks(hooks, create))
+    }
+    return results
+  }
+
+  private async afterCreate(creates:Array<{id:string, create:Create<T>}>, method:string) {
+    const context = this.hookContext(method)
+    for (const {id, create} of creates) {
+      await runHooks(this.hooksFor('afterCreate').map(hook => () => hook(id, create, context)))
+    }
+  }
+
+  private async beforeUpdate<U extends {id:string, update:Update<T>}>(updates:Array<U>, method:string):Promise<Array<U>> {
+    const context = this.hookContext(method)
+    const results = new Array<U>()
+    for (const update of updates) {
+      const hooks = this.hooksFor('beforeUpdate').map(hook => (value:Update<T>) => hook(update.id, value, context))
+      results.push({...update, update: await runTransformHooks(hooks, update.update)})
+    }
+    return results
+  }
+
+  private async afterUpdate(updates:Array<{id:string, update:Update<T>}>, method:string) {
+    const context = this.hookContext(method)
+    for (const {id, update} of updates) {
+      await runHooks(this.hooksFor('afterUpdate').map(hook => () => hook(id, update, context)))
+    }
+  }
+
+  private async beforeDelete(ids:Array<string>, method:string) {
+    const context = this.hookContext(method)
+    for (const id of ids) {
+      await runHooks(this.hooksFor('beforeDelete').map(hook => () => hook(id, context)))
+    }
+  }
+
+  private async afterDelete(ids:Array<string>, method:string) {
+    const context = this.hookContext(method)
+    for (const id of ids) {
+      await runHooks(this.hooksFor('afterDelete').map(hook => () => hook(id, context)))
+    }
+  }
+
+  private async afterRead(entities:Array<T>, method:string):Promise<Array<T>> {
+    const context = this.hookContext(method)
+    const hooks = this.hooksFor('afterRead').map(hook => (entity:T) => hook(entity, context))
+    const results = new Array<T>()
+    for (const entity of entities) {
+      results.push(await runTransformHooks(hooks, entity))
+    }
+    return results
+  }
+
+  // a write that increments a field, or writes a history record, would be applied twice if it was retried after a failure that hid its success
+  private isIdempotent(writes:Array<DocumentData|null>):boolean {
+    return !this.isAuditEnabled() && !writes.some(incrementsAnyField)
+  }
+
+  private isAuditEnabled():boolean {
+    return !!this.options?.audit
+  }
+
+  private historyCollection(id:string):CollectionReference<any> {
+    return this.collection.doc(id).collection(this.options?.audit?.historyCollectionName ?? DEFAULT_HISTORY_COLLECTION_NAME)
+  }
+
+  // each audited write also writes a history record, so fewer entities fit in a batch
+  private entitiesPerBatch(batchSize?:number):number {
+    const writesPerEntity = this.isAuditEnabled() ? 2 : 1
+    return Math.min(batchSize ?? BATCH_SIZE, Math.floor(BATCH_SIZE / writesPerEntity))
+  }
+
+  private countWrites(mode:WriteMode):WriteCounts {
+    const historyWrites = this.isAuditEnabled() ? 1 : 0
+    return mode === 'delete'
+      ? sumWriteCounts([{numberOfDeletes: 1}, {numberOfWrites: historyWrites}])
+      : {numberOfWrites: 1 + historyWrites}
+  }
+
+  /**
+   * Adds a write to the batch or transaction, along with its history record if auditing is on.
+   * The document as it was before the write is needed to work out the changes, it is ignored if auditing is off.
+   */
+  private writeDocument(
+    writer:DocumentWriter,
+    id:string,
+    operation:AuditOperation,
+    mode:WriteMode,
+    data:DocumentData|null,
+    before:DocumentData|null,
+  ):WriteCounts {
+    const docRef = this.collection.doc(id)
+    switch (mode) {
+      case 'create':
+        writer.create(docRef, data)
+        break
+      case 'set':
+      case 'merge':
+        writer.set(docRef, data, {merge: mode === 'merge'})
+        break
+      case 'update':
+        writer.update(docRef, data)
+        break
+      case 'delete':
+        writer.delete(docRef)
+        break
+    }
+    if (!this.isAuditEnabled()) {
+      return this.countWrites(mode)
+    }
+    const historyRef = this.historyCollection(id).doc()
+    const record:Omit<HistoryRecord, "timestamp"> & {timestamp:FieldValue} = {
+      id: historyRef.id,
+      documentId: id,
+      operation,
+      changes: diffFields(before, applyWrite(before, mode, data)),
+      timestamp: FieldValue.serverTimestamp(),
+      actor: this.options?.audit?.actorProvider?.() ?? null,
+    }
+    writer.create(historyRef, record)
+    return this.countWrites(mode)
+  }
+
+  /**
+   * Writes each item on its own with a BulkWriter, an item has succeeded once all of its writes have, including its history record.
+   */
+  private async bulkWrite(items:Array<BulkWriteItem>, options?:BulkWriteOptions):Promise<BulkWriteResult> {
+    const result:BulkWriteResult = {succeeded: [], failed: []}
+    if (items.length === 0) {
+      return result
+    }
+    const maxAttempts = options?.maxAttempts ?? DEFAULT_BULK_WRITE_MAX_ATTEMPTS
+    const bulkWriter = this.firestore.bulkWriter({throttling: options?.throttling ?? true})
+    bulkWriter.onWriteError(error => isTransientError(error) && error.failedAttempts < maxAttempts)
+
+    try {
+      for (const itemBatch of chunk(items, options?.maxPendingWrites ?? DEFAULT_BULK_WRITE_MAX_PENDING_WRITES)) {
+        // failures are caught as soon as they happen, a rejection left unhandled until the flush would be reported by Node
+        const writes = itemBatch.map(item => {
+          const pending = new Array<Promise<unknown>>()
+          const writer:DocumentWriter = {
+            create: (documentRef, data) => pending.push(bulkWriter.create(documentRef, data)),
+            set: (documentRef, data, setOptions) => pending.push(bulkWriter.set(documentRef, data, setOptions)),
+            update: (documentRef, data) => pending.push(bulkWriter.update(documentRef, data)),
+            delete: documentRef => pending.push(bulkWriter.delete(documentRef)),
+          }
+          try {
+            const counts = this.writeDocument(writer, item.id, item.operation, item.mode, item.data, item.before)
+            return {item, counts, failure: Promise.all(pending).then(() => null, error => ({error}))}
+          } catch (error:any) {
+            // the BulkWriter rejects data it cannot write straight away, that only fails this item
+            pending.forEach(write => write.catch(() => undefined))
+            return {item, counts: {}, failure: Promise.resolve({error})}
+          }
+        })
+        await bulkWriter.flush()
+        const failures = await Promise.all(writes.map(write => write.failure))
+        const succeededCounts = new Array<WriteCounts>()
+        failures.forEach((failure, index) => {
+          const {item, counts} = writes[index]
+          if (failure) {
+            result.failed.push({id: item.id, error: failure.error})
+          } else {
+            result.succeeded.push(item.id)
+            succeededCounts.push(counts)
+          }
+        })
+        if (succeededCounts.length > 0) {
+          this.onRepoOperation(sumWriteCounts(succeededCounts))
+        }
+      }
+    } finally {
+      await bulkWriter.close()
+    }
+    return result
+  }
+
+  private cacheKey(id:string):string {
+    return `${this.collection.path}/${id}`
+  }
+
+  // soft deleted entities are cached as well, whether they are hidden is decided each time they are read
+  private async readFromCache(ids:Array<string>):Promise<Map<string, T>> {
+    const cached = new Map<string, T>()
+    if (!this.cacheStore || ids.length === 0) {
+      return cached
+    }
+    const cacheStore = this.cacheStore
+    const values = await Promise.all(ids.map(id => cacheStore.get(this.cacheKey(id))))
+    values.forEach((value, index) => {
+      if (value) {
+        this.checkTenant(ids[index], value)
+        // a deep copy is handed out, so changes made by the caller, even to nested fields, do not leak into the cache
+        cached.set(ids[index], cloneValue(value))
+      }
+    })
+    this.onRepoOperation({numberOfCacheHits: cached.size, numberOfCacheMisses: ids.length - cached.size})
+    return cached
+  }
+
+  private async writeToCache(entities:Array<T>) {
+    if (!this.cacheStore || entities.length === 0) {
+      return
+    }
+    const cacheStore = this.cacheStore
+    const ttlMillis = this.options?.cache?.ttlMillis ?? DEFAULT_CACHE_TTL_MILLIS
+    await Promise.all(entities.map(entity => cacheStore.set(this.cacheKey(entity.id), cloneValue(entity), ttlMillis)))
+  }
+
+  private async invalidateCache(ids:Array<string>) {
+    if (!this.cacheStore || ids.length === 0) {
+      return
     }
+    const cacheStore = this.cacheStore
+    await Promise.all(ids.map(id => cacheStore.delete(this.cacheKey(id))))
   }
 
-  private mapCreateToEntity(value:Omit<T,keyof Entity>):Entity {
-    const id = this.generateId(value);
+  private mapCreateToEntity(value:Omit<T,keyof Entity>, id:string = this.generateId(value)):Entity {
+    const validatedValue = validate(
+      this.options?.validator?.create,
+      value,
+      {collectionName: this.collectionName, documentId: id, operation: 'create'}
+    )
+    const tenantField = this.tenantField()
+    const data = tenantField
+      ? {...this.toFirestore(validatedValue, false), [tenantField]: this.tenantId()}
+      : this.toFirestore(validatedValue, false)
     const createdAt = FieldValue.serverTimestamp();
     const updatedAt = FieldValue.serverTimestamp();
+    const version = this.isVersioningEnabled() ? {[VERSION_FIELD]: 1} : {};
+    if (this.isSoftDeleteEnabled()) {
+      // soft deleted documents are filtered out of queries with deletedAt == null, so the field must always be present
+      // @ts-ignore
+      return {...data, id, createdAt, updatedAt, ...version, [DELETED_AT_FIELD]: null};
+    }
     // @ts-ignore
-    return  {...value, id, createdAt, updatedAt};
+    return  {...data, id, createdAt, updatedAt, ...version};
   }
 
-  private mapUpdateToEntity(value:Update<T>):Update<Entity> {
+  // merged updates are written with set, which takes nested maps rather than dotted fields
+  private mapUpdateToEntity(id:string, value:Update<T>, mode:'update'|'merge' = 'update'):Update<Entity> {
+    // only the plain values are validated, the transforms are checked against the types of their fields at compile time
+    const {values, transforms} = splitTransforms(value)
+    const validatedValue = {
+      ...validate(
+        this.options?.validator?.update,
+        <Update<T>>values,
+        {collectionName: this.collectionName, documentId: id, operation: 'update'}
+      ),
+      ...transforms,
+    }
+    const tenantField = this.tenantField()
+    if (tenantField && Object.keys(validatedValue).some(field => field === tenantField || field.startsWith(`${tenantField}.`))) {
+      throw new Error(`The tenant field ${tenantField} of ${this.collectionName} cannot be updated`)
+    }
     const updatedAt = FieldValue.serverTimestamp();
+    const version = this.isVersioningEnabled() ? {[VERSION_FIELD]: FieldValue.increment(1)} : {};
     // @ts-ignore
-    return  {...value, updatedAt};
+    return  {...this.toFirestore(toFieldValues(validatedValue, mode === 'merge'), true), updatedAt, ...version};
+  }
+
+  // updates are converted as partial entities, in the same way Firestore converts the data of a set with merge
+  private toFirestore(value:DocumentData, partial:boolean):DocumentData {
+    const converter = this.converter
+    if (!converter) {
+      return value
+    }
+    return partial ? converter.toFirestore(value, {merge: true}) : converter.toFirestore(value)
+  }
+
+  // only called for snapshots of documents that exist
+  private mapSnapshotToEntity(snapshot:DocumentSnapshot):T {
+    this.checkTenant(snapshot.id, snapshot.data())
+    const converter = this.converter
+    return validate(
+      this.options?.validator?.read,
+      converter ? converter.fromFirestore(<QueryDocumentSnapshot>snapshot) : snapshot.data(),
+      {collectionName: this.collectionName, documentId: snapshot.id, operation: 'read'}
+    )
   }
 
   async createOnly(create:Create<T>):Promise<string> {
-    const entity = this.mapCreateToEntity(create)
-    await this.collection.doc(entity.id).set(entity)
-    this.onRepoOperation({numberOfWrites: 1})
-    return entity.id
+    return this.instrumentation.run('createOnly', null, async () => {
+      const [hookedCreate] = await this.beforeCreate([create], 'createOnly')
+      const entity = this.mapCreateToEntity(hookedCreate)
+      let counts:WriteCounts
+      if (this.tenantField() !== null) {
+        // the create would overwrite a document with the same ID, which may belong to another tenant, so it is checked first
+        counts = await this.call('createOnly', [entity.id], false, () => this.firestore.runTransaction(async transaction => {
+          const snapshot = await transaction.get(this.collection.doc(entity.id))
+          this.onRepoOperation({numberOfReads: 1})
+          this.checkTenant(entity.id, snapshot.data())
+          return this.writeDocument(transaction, entity.id, 'create', 'set', entity, null)
+        }))
+      } else {
+        const batch = this.firestore.batch()
+        counts = this.writeDocument(batch, entity.id, 'create', 'set', entity, null)
+        await this.call('createOnly', [entity.id], false, () => batch.commit())
+      }
+      this.onRepoOperation(counts)
+      // a create overwrites any document with the same ID
+      await this.invalidateCache([entity.id])
+      await this.afterCreate([{id: entity.id, create: hookedCreate}], 'createOnly')
+      return entity.id
+    }, () => 1)
   }
 
   async createAndReturn(create:Create<T>):Promise<T> {
-    const id = await this.createOnly(create)
-    const newEntity = await this.getOne(id)
-    if (!newEntity) {
-      throw new Error(`Failed to create new entity in ${this.collectionName}`)
-    }
-    return newEntity
+    return this.instrumentation.run('createAndReturn', null, async () => {
+      const id = await this.createOnly(create)
+      const newEntity = await this.getOne(id)
+      if (!newEntity) {
+        throw new EntityNotFoundError(this.collectionName, [id], 'createAndReturn')
+      }
+      return newEntity
+    }, () => 1)
   }
 
   async batchCreate(creates:Array<Create<T>>, options?:{batchSize?:number}):Promise<Array<string>> {
-    const batchedCreates = chunk(creates, options?.batchSize ?? BATCH_SIZE)
-    const ids:Array<string> = []
+    return this.instrumentation.run('batchCreate', null, async () => {
+      // entities are mapped up front so that an invalid entity fails the call before any batch is written
+      const hookedCreates = await this.beforeCreate(creates, 'batchCreate')
+      const entities = hookedCreates.map(create => this.mapCreateToEntity(create))
+      const batchedCreates = chunk(entities, this.entitiesPerBatch(options?.batchSize))
+      const ids:Array<string> = entities.map(entity => entity.id)
+
+      const submitBatch = async (createBatch:Array<Entity>) => {
+        const batch = this.firestore.batch();
+        const counts = createBatch.map(entity => this.writeDocument(batch, entity.id, 'create', 'create', entity, null));
+        await this.call('batchCreate', createBatch.map(entity => entity.id), false, () => batch.commit());
+        this.onRepoOperation(sumWriteCounts(counts));
+      }
+
+      await Promise.all(
+        batchedCreates.map(createBatch => submitBatch(createBatch))
+      )
+      await this.afterCreate(hookedCreates.map((create, index) => ({id: ids[index], create})), 'batchCreate')
+
+      return ids;
+    }, ids => ids.length)
+  }
+
+  /**
+   * Creates the entities through a BulkWriter, which retries writes that fail with a transient error.
+   * Unlike `batchCreate`, each entity is written on its own and a failed write is reported in the result rather than thrown.
+   */
+  async bulkCreate(creates:Array<Create<T>>, options?:BulkWriteOptions):Promise<BulkWriteResult> {
+    return this.instrumentation.run('bulkCreate', null, async () => {
+      // entities are mapped up front so that an invalid entity fails the call before anything is written
+      const hookedCreates = await this.beforeCreate(creates, 'bulkCreate')
+      const entities = hookedCreates.map(create => this.mapCreateToEntity(create))
+      const result = await this.bulkWrite(
+        entities.map(entity => ({id: entity.id, operation: 'create', mode: 'create', data: entity, before: null})),
+        options,
+      )
+      const succeededIds = new Set(result.succeeded)
+      await this.afterCreate(
+        hookedCreates
+          .map((create, index) => ({id: entities[index].id, create}))
+          .filter(({id}) => succeededIds.has(id)),
+        'bulkCreate',
+      )
+      return result
+    }, result => result.succeeded.length)
+  }
+
+  /**
+   * Creates the entity with the given ID, or updates it if it already exists, in a transaction.
+   * `createdAt` is only set when the entity is created. A soft deleted entity is created again.
+   */
+  async upsert(id:string, value:Create<T>):Promise<UpsertResult> {
+    return this.instrumentation.run('upsert', null, async () => {
+      // a whole entity is a valid update, which can't be worked out from the dotted paths of a generic entity
+      const [result] = await this.writeUpserts([{id, create: value, update: <Update<T>>value}], 'upsert')
+      return result
+    }, () => 1)
+  }
+
+  /**
+   * Creates the entity with the given ID unless it already exists, in a transaction. A soft deleted entity is created again.
+   */
+  async createIfAbsent(id:string, create:Create<T>):Promise<UpsertResult> {
+    return this.instrumentation.run('createIfAbsent', null, async () => {
+      const [result] = await this.writeUpserts([{id, create, update: null}], 'createIfAbsent')
+      return result
+    }, () => 1)
+  }
+
+  async batchUpsert(values:Array<{id:string, value:Create<T>}>, options?:{batchSize?:number}):Promise<Array<UpsertResult>> {
+    return this.instrumentation.run('batchUpsert', null, async () => {
+      return this.writeUpserts(values.map(({id, value}) => ({id, create: value, update: <Update<T>>value})), 'batchUpsert', options?.batchSize)
+    }, results => results.length)
+  }
 
-    const submitBatch = async (createBatch:Array<Create<T>>) => {
-      const batch = this.firestore.batch();
-      createBatch.forEach(create => {
-        const entity = this.mapCreateToEntity(create)
-        ids.push(entity.id)
-        const docRef = this.collection.doc(entity.id);
-        batch.create(docRef, entity);
-      });
-      const results = await batch.commit();
-      this.onRepoOperation({ numberOfWrites: results.length});
+  async batchCreateIfAbsent(creates:Array<{id:string, create:Create<T>}>, options?:{batchSize?:number}):Promise<Array<UpsertResult>> {
+    return this.instrumentation.run('batchCreateIfAbsent', null, async () => {
+      return this.writeUpserts(creates.map(({id, create}) => ({id, create, update: null})), 'batchCreateIfAbsent', options?.batchSize)
+    }, results => results.length)
+  }
+
+  // entities without an update are only written if they do not exist, each batch is read and written in one transaction
+  private async writeUpserts(
+    upserts:Array<{id:string, create:Create<T>, update:Update<T>|null}>,
+    method:string,
+    batchSize?:number,
+  ):Promise<Array<UpsertResult>> {
+    const ids = upserts.map(upsert => upsert.id)
+    if (new Set(ids).size !== ids.length) {
+      throw new Error(`${method} was given the same ID more than once for ${this.collectionName}`)
+    }
+    // entities are mapped up front so that an invalid entity fails the call before any batch is written
+    const hookedCreates = await this.beforeCreate(upserts.map(upsert => upsert.create), method)
+    const hookedUpdates = await this.beforeUpdate(
+      upserts.filter(upsert => upsert.update !== null).map(upsert => ({id: upsert.id, update: upsert.update!})),
+      method,
+    )
+    const updatesById = new Map(hookedUpdates.map(update => [update.id, update.update]))
+    const values = upserts.map((upsert, index) => ({
+      id: upsert.id,
+      create: hookedCreates[index],
+      createData: this.mapCreateToEntity(hookedCreates[index], upsert.id),
+      update: updatesById.get(upsert.id) ?? null,
+      updateData: updatesById.has(upsert.id) ? this.mapUpdateToEntity(upsert.id, updatesById.get(upsert.id)!) : null,
+    }))
+
+    const submitTransactionalBatch = async (valueBatch:typeof values):Promise<Array<UpsertResult>> => {
+      let counts:WriteCounts = {}
+      const idempotent = this.isIdempotent(valueBatch.map(value => value.updateData))
+      const results = await this.call(method, valueBatch.map(value => value.id), idempotent, () => this.firestore.runTransaction(async transaction => {
+        const snapshots = await transaction.getAll(...valueBatch.map(value => this.collection.doc(value.id)))
+        this.onRepoOperation({numberOfReads: snapshots.length})
+        const writeCounts = new Array<WriteCounts>()
+        const batchResults = snapshots.map((snapshot, index) => {
+          const value = valueBatch[index]
+          const data = snapshot.data() ?? null
+          this.checkTenant(value.id, data)
+          if (!data || this.isHidden(data)) {
+            writeCounts.push(this.writeDocument(transaction, value.id, 'create', 'set', value.createData, data))
+            return {id: value.id, created: true}
+          }
+          if (value.updateData) {
+            writeCounts.push(this.writeDocument(transaction, value.id, 'update', 'update', value.updateData, data))
+          }
+          return {id: value.id, created: false}
+        })
+        counts = writeCounts.length > 0 ? sumWriteCounts(writeCounts) : {}
+        return batchResults
+      }))
+      if (counts.numberOfWrites) {
+        this.onRepoOperation(counts)
+      }
+      return results
     }
 
-    await Promise.all(
-      batchedCreates.map(createBatch => submitBatch(createBatch))
+    let results:Array<UpsertResult>
+    try {
+      results = flatten(await Promise.all(
+        chunk(values, this.entitiesPerBatch(batchSize)).map(valueBatch => submitTransactionalBatch(valueBatch))
+      ))
+    } finally {
+      // some batches may have been written even if another failed
+      await this.invalidateCache(ids)
+    }
+    await this.afterCreate(
+      values.filter((value, index) => results[index].created).map(value => ({id: value.id, create: value.create})),
+      method,
     )
+    await this.afterUpdate(
+      values
+        .filter((value, index) => !results[index].created && value.update !== null)
+        .map(value => ({id: value.id, update: value.update!})),
+      method,
+    )
+    return results
+  }
 
-    return ids;
+  async getOne(id:string, options?:ReadOptions):Promise<T|null> {
+    return this.instrumentation.run('getOne', null, async () => {
+      const cached = await this.readFromCache([id])
+      const entity = cached.get(id) ?? await this.readOne(id, 'getOne')
+      if (!entity || this.isHidden(entity, options)) {
+        return null
+      }
+      const [hookedEntity] = await this.afterRead([entity], 'getOne')
+      return hookedEntity
+    }, entity => entity ? 1 : 0)
   }
 
-  async getOne(id:string):Promise<T|null> {
-    const documentSnapshot = await this.collection.doc(id).get()
+  // reads straight from Firestore, filling the cache
+  private async readOne(id:string, method:string):Promise<T|null> {
+    const documentSnapshot = await this.call(method, [id], true, () => this.collection.doc(id).get())
     this.onRepoOperation({numberOfReads: 1})
-    return documentSnapshot.data() ?? null
+    if (!documentSnapshot.exists) {
+      return null
+    }
+    const entity = this.mapSnapshotToEntity(documentSnapshot)
+    await this.writeToCache([entity])
+    return entity
   }
 
   async getMany(
-    queries:Array<Query<T>>,
+    queries:Array<QueryFilter<T>>,
     queryOptions:QueryOptions<T>|null = null
   ):Promise<Array<T>> {
-    let reference:FirebaseFirestore.Query = this.collection;
-    queries.forEach((query:Query<T>) => {
-      reference = reference.where(query.field, query.operation, query.value);
+    return this.instrumentation.run('getMany', queryShape(queries, queryOptions), async () => {
+      const reference = await this.buildQuery(queries, queryOptions, 'getMany')
+      const querySnapshot = await this.call('getMany', [], true, () => reference.get())
+      const reads = querySnapshot.size > 0 ? querySnapshot.size : 1; // queries that return 0 results still count as one read.
+      this.onRepoOperation({ numberOfReads: reads});
+      const documentDatas = querySnapshot.docs.map(snapshot => this.mapSnapshotToEntity(snapshot));
+      return this.afterRead(documentDatas, 'getMany');
+    }, entities => entities.length)
+  }
+
+  private async buildQuery(
+    queries:Array<QueryFilter<T>>,
+    queryOptions:QueryOptions<T>|null,
+    method:string,
+  ):Promise<FirebaseFirestore.Query> {
+    return buildQuery(
+      this.collection,
+      [...encryptQueries(this.encryptor, queries), ...this.tenantQueries(), ...softDeleteQueries<T>(this.options?.softDelete, queryOptions)],
+      queryOptions,
+      id => this.call(method, [id], true, () => this.collection.doc(id).get()),
+    )
+  }
+
+  async getPage(queries:Array<QueryFilter<T>>, pageOptions:PageOptions<T>):Promise<Page<T>> {
+    return this.instrumentation.run('getPage', queryShape(queries, pageOptions), async () => {
+      const limit = Math.floor(pageOptions.limit)
+      const sort = pageOptions.sort ?? []
+      const cursor = pageOptions.cursor ? decodePageCursor(pageOptions.cursor, sort, this.firestore) : null
+      const backwards = cursor?.direction === 'prev'
+      const lastOrder = sort.length > 0 ? sort[sort.length - 1].order : SortOrder.ASC
+
+      // the ID is always the last sort, so that the sort values in a cursor point at exactly one document
+      let reference = (await this.buildQuery(queries, {sort, includeDeleted: pageOptions.includeDeleted}, 'getPage'))
+        .orderBy(FieldPath.documentId(), lastOrder)
+      if (cursor) {
+        reference = backwards ? reference.endBefore(...cursor.values) : reference.startAfter(...cursor.values)
+      }
+      // one more than the limit is read to find out if there is another page
+      reference = backwards ? reference.limitToLast(limit + 1) : reference.limit(limit + 1)
+
+      const querySnapshot = await this.call('getPage', [], true, () => reference.get())
+      const reads = querySnapshot.size > 0 ? querySnapshot.size : 1; // queries that return 0 results still count as one read.
+      this.onRepoOperation({ numberOfReads: reads});
+
+      const hasMore = querySnapshot.size > limit
+      const snapshots = !hasMore
+        ? querySnapshot.docs
+        : backwards ? querySnapshot.docs.slice(1) : querySnapshot.docs.slice(0, limit)
+      const cursorValues = (snapshot:FirebaseFirestore.QueryDocumentSnapshot) => [
+        ...sort.map(({field}) => snapshot.get(field)),
+        snapshot.id,
+      ]
+      const first = snapshots[0]
+      const last = snapshots[snapshots.length - 1]
+      const hasNext = backwards ? true : hasMore
+      const hasPrev = backwards ? hasMore : !!cursor
+
+      return {
+        items: await this.afterRead(snapshots.map(snapshot => this.mapSnapshotToEntity(snapshot)), 'getPage'),
+        nextCursor: hasNext && last ? encodePageCursor('next', sort, cursorValues(last)) : null,
+        prevCursor: hasPrev && first ? encodePageCursor('prev', sort, cursorValues(first)) : null,
+      }
+    }, page => page.items.length)
+  }
+
+  async count(queries:Array<QueryFilter<T>>, options?:ReadOptions):Promise<number> {
+    return this.instrumentation.run('count', queryShape(queries), async () => {
+      const result = await this.aggregate(queries, {count: {operation: 'count'}}, options)
+      return result.count
     })
-    if (queryOptions && queryOptions.sort && queryOptions.sort.length > 0) {
-      queryOptions.sort.forEach(sort => {
-        reference = reference.orderBy(sort.field, sort.order);
-      });
-    }
-    if (queryOptions && queryOptions.limit) {
-      reference = reference.limit(queryOptions.limit);
-    }
-    if (queryOptions && queryOptions.startAfterId) {
-      const startAfterSnapshot = await this.collection.doc(queryOptions.startAfterId).get();
-      reference = reference.startAfter(startAfterSnapshot);
+  }
+
+  async sum(queries:Array<QueryFilter<T>>, field:Extract<keyof T, string>|string, options?:ReadOptions):Promise<number> {
+    return this.instrumentation.run('sum', queryShape(queries), async () => {
+      const result = await this.aggregate(queries, {sum: {operation: 'sum', field}}, options)
+      return result.sum
+    })
+  }
+
+  async average(queries:Array<QueryFilter<T>>, field:Extract<keyof T, string>|string, options?:ReadOptions):Promise<number|null> {
+    return this.instrumentation.run('average', queryShape(queries), async () => {
+      const result = await this.aggregate(queries, {average: {operation: 'average', field}}, options)
+      return result.average
+    })
+  }
+
+  async aggregate<A extends {[alias:string]:Aggregation<T>}>(
+    queries:Array<QueryFilter<T>>,
+    aggregations:A,
+    options?:ReadOptions,
+  ):Promise<AggregationResult<A>> {
+    return this.instrumentation.run('aggregate', queryShape(queries), async () => {
+      // a count is always included, aggregation queries are billed on the number of index entries they match
+      const billingAlias = "__numberOfMatches"
+      const aggregateSpec:{[alias:string]:AggregateField<any>} = {[billingAlias]: AggregateField.count()}
+      Object.keys(aggregations).forEach(alias => {
+        const aggregation = aggregations[alias]
+        switch (aggregation.operation) {
+          case 'count':
+            aggregateSpec[alias] = AggregateField.count()
+            break
+          case 'sum':
+            aggregateSpec[alias] = AggregateField.sum(aggregation.field)
+            break
+          case 'average':
+            aggregateSpec[alias] = AggregateField.average(aggregation.field)
+            break
+        }
+      })
+      const reference = await this.buildQuery(queries, {includeDeleted: options?.includeDeleted}, 'aggregate')
+      const aggregateSnapshot = await this.call('aggregate', [], true, () => reference.aggregate(aggregateSpec).get())
+      const {[billingAlias]: numberOfMatches, ...result} = aggregateSnapshot.data()
+      this.onRepoOperation({numberOfReads: Math.max(1, Math.ceil((numberOfMatches ?? 0) / AGGREGATION_ENTRIES_PER_READ))})
+      return <AggregationResult<A>>result
+    })
+  }
+
+  async getManyById(ids:Array<string>, options?:GetManyByIdOptions):Promise<Array<T>> {
+    return this.instrumentation.run('getManyById', null, async () => {
+      const result = await this.getManyByIdWithMissing(ids, options)
+      return result.found
+    }, entities => entities.length)
+  }
+
+  async getManyByIdWithMissing(ids:Array<string>, options?:GetManyByIdOptions):Promise<GetManyByIdResult<T>> {
+    return this.instrumentation.run('getManyByIdWithMissing', null, async () => {
+      const uniqueIds = Array.from(new Set(ids))
+      const cached = await this.readFromCache(uniqueIds)
+      const uncachedIds = uniqueIds.filter(id => !cached.has(id))
+      const read = await this.readManyById(uncachedIds, 'getManyById', options)
+      const found = new Array<T>()
+      const missingIds = new Array<string>()
+      uniqueIds.forEach(id => {
+        const entity = cached.get(id) ?? read.get(id)
+        if (entity && !this.isHidden(entity, options)) {
+          found.push(entity)
+        } else {
+          missingIds.push(id)
+        }
+      })
+      return {found: await this.afterRead(found, 'getManyById'), missingIds}
+    }, result => result.found.length)
+  }
+
+  // reads straight from Firestore, filling the cache
+  private async readManyById(uniqueIds:Array<string>, method:string, options?:GetManyByIdOptions):Promise<Map<string, T>> {
+    const idBatches = chunk<string>(uniqueIds, options?.batchSize ?? GET_ALL_BATCH_SIZE)
+    const concurrency = options?.concurrency ?? DEFAULT_GET_ALL_CONCURRENCY
+    const resultBatches = await mapWithConcurrency(idBatches, concurrency, async idBatch => {
+      const snapshots = await this.call(method, idBatch, true, () => this.firestore.getAll(...idBatch.map(id => this.collection.doc(id))))
+      // every document requested is billed as a read, whether it exists or not
+      this.onRepoOperation({numberOfReads: snapshots.length})
+      return snapshots
+        .filter(snapshot => snapshot.exists)
+        .map(snapshot => this.mapSnapshotToEntity(snapshot))
+    })
+    const entities = flatten(resultBatches)
+    await this.writeToCache(entities)
+    return new Map(entities.map(entity => [entity.id, entity]))
+  }
+
+  // reads the documents as they are stored, so that history records hold the same values as the documents, e.g. encrypted
+  private async readDocumentsById(uniqueIds:Array<string>, method:string):Promise<Map<string, DocumentData>> {
+    const idBatches = chunk<string>(uniqueIds, GET_ALL_BATCH_SIZE)
+    const resultBatches = await mapWithConcurrency(idBatches, DEFAULT_GET_ALL_CONCURRENCY, async idBatch => {
+      const snapshots = await this.call(method, idBatch, true, () => this.firestore.getAll(...idBatch.map(id => this.collection.doc(id))))
+      this.onRepoOperation({numberOfReads: snapshots.length})
+      return snapshots
+        .filter(snapshot => snapshot.exists)
+        .map(snapshot => {
+          const data = snapshot.data()!
+          this.checkTenant(snapshot.id, data)
+          return <[string, DocumentData]>[snapshot.id, data]
+        })
+    })
+    return new Map(flatten(resultBatches))
+  }
+
+  watchOne(
+    id:string,
+    onChange:(entity:T|null) => void,
+    onError:(error:any) => void,
+  ):Unsubscribe {
+    let unsubscribed = false
+    // the afterRead hooks may be async, so snapshots are delivered one after another to keep them in order
+    let delivery = Promise.resolve()
+    const unsubscribeListener = this.collection.doc(id).onSnapshot(
+      snapshot => {
+        this.onRepoOperation({numberOfReads: 1})
+        delivery = delivery.then(async () => {
+          const data = snapshot.data()
+          const [entity] = !data || this.isHidden(data) ? [null] : await this.afterRead([this.mapSnapshotToEntity(snapshot)], 'watchOne')
+          if (!unsubscribed) {
+            onChange(entity)
+          }
+        }).catch(onError)
+      },
+      onError,
+    )
+
+    return () => {
+      unsubscribed = true
+      unsubscribeListener()
     }
-    if (queryOptions && queryOptions.startAtId) {
-      const endAtSnapshot = await this.collection.doc(queryOptions.startAtId).get();
-      reference = reference.startAt(endAtSnapshot);
+  }
+
+  watchMany(
+    queries:Array<QueryFilter<T>>,
+    queryOptions:QueryOptions<T>|null,
+    onChange:(changes:EntityChanges<T>) => void,
+    onError:(error:any) => void,
+  ):Unsubscribe {
+    let unsubscribed = false
+    let unsubscribeListener:Unsubscribe|null = null
+
+    // building the query may need to read the startAfterId / startAtId document, so the listener is attached once it is built
+    this.buildQuery(queries, queryOptions, 'watchMany').then(
+      reference => {
+        if (unsubscribed) {
+          return
+        }
+        let initialSnapshot = true
+        // the afterRead hooks may be async, so snapshots are delivered one after another to keep them in order
+        let delivery = Promise.resolve()
+        unsubscribeListener = reference.onSnapshot(
+          querySnapshot => {
+            const documentChanges = querySnapshot.docChanges()
+            // listeners are billed a read for each document added or changed, the first snapshot is billed at least one read
+            const reads = documentChanges.filter(change => change.type !== "removed").length
+            this.onRepoOperation({numberOfReads: initialSnapshot ? Math.max(reads, 1) : reads})
+            initialSnapshot = false
+            delivery = delivery.then(async () => {
+              const changesOfType = (type:string) => this.afterRead(documentChanges
+                .filter(change => change.type === type)
+                .map(change => this.mapSnapshotToEntity(change.doc)), 'watchMany')
+              const changes = {
+                entities: await this.afterRead(querySnapshot.docs.map(snapshot => this.mapSnapshotToEntity(snapshot)), 'watchMany'),
+                added: await changesOfType("added"),
+                modified: await changesOfType("modified"),
+                removed: await changesOfType("removed"),
+              }
+              if (!unsubscribed) {
+                onChange(changes)
+              }
+            }).catch(onError)
+          },
+          onError,
+        )
+      },
+      onError,
+    )
+
+    return () => {
+      unsubscribed = true
+      unsubscribeListener?.()
     }
-    const querySnapshot = await reference.get()
-    const reads = querySnapshot.size > 0 ? querySnapshot.size : 1; // queries that return 0 results still count as one read.
-    this.onRepoOperation({ numberOfReads: reads});
-    const documentDatas = querySnapshot.docs.map(snapshot => snapshot.data());
-    return <T[]>documentDatas;
   }
 
-  async getManyById(ids:Array<string>):Promise<Array<T>> {
-    const idBatches:Array<Array<string>> = this.batchIds(ids)
-    const resultBatches:Array<Array<T>> = await Promise.all(
-      idBatches.map((idBatch) => this.getMany([{ field: "id", operation: "in", value: idBatch }])),
-    );
-    const results = flatten(resultBatches);
-    return results;
+  /**
+   * Returns a view of this repository bound to the transaction in the scope, see runInTransaction.
+   */
+  inTransaction(scope:TransactionScope):TransactionalRepository<T> {
+    // the stats of a transaction are reported once it ends, for the transaction as a whole
+    const report = (stats:Omit<RepositoryOperationStats, "collectionName">) => this.onRepoOperation({method: 'runInTransaction', ...stats})
+    const readExisting = async (id:string, options?:ReadOptions) => {
+      const docRef = this.collection.doc(id)
+      const snapshot = await scope.transaction.get(docRef)
+      scope.recordReads(this, report, 1)
+      const data = snapshot.data()
+      this.checkTenant(id, data)
+      return {data: !data || this.isHidden(data, options) ? null : data, snapshot}
+    }
+
+    return {
+      getOne: async (id, options) => {
+        const {data, snapshot} = await readExisting(id, options)
+        if (!data) {
+          return null
+        }
+        const [entity] = await this.afterRead([this.mapSnapshotToEntity(snapshot)], 'getOne')
+        return entity
+      },
+      getMany: async (queries, queryOptions = null) => {
+        const reference = await this.buildQuery(queries, queryOptions, 'getMany')
+        const querySnapshot = await scope.transaction.get(reference)
+        scope.recordReads(this, report, querySnapshot.size > 0 ? querySnapshot.size : 1)
+        return this.afterRead(querySnapshot.docs.map(snapshot => this.mapSnapshotToEntity(snapshot)), 'getMany')
+      },
+      createOnly: async create => {
+        const [hookedCreate] = await this.beforeCreate([create], 'createOnly')
+        const entity = this.mapCreateToEntity(hookedCreate)
+        scope.write(this, report, this.countWrites('create'), transaction => {
+          this.writeDocument(transaction, entity.id, 'create', 'create', entity, null)
+        })
+        scope.afterCommit(() => this.afterCreate([{id: entity.id, create: hookedCreate}], 'createOnly'))
+        return entity.id
+      },
+      updateOnly: async (id, value, options) => {
+        const [{update}] = await this.beforeUpdate([{id, update: value}], 'updateOnly')
+        const updateValue = this.mapUpdateToEntity(id, update)
+        const {data} = await readExisting(id)
+        if (!data) {
+          return null
+        }
+        this.checkVersion(id, data, options?.expectedVersion)
+        scope.write(this, report, this.countWrites('update'), transaction => {
+          this.writeDocument(transaction, id, 'update', 'update', updateValue, data)
+        })
+        scope.afterCommit(() => this.invalidateCache([id]))
+        scope.afterCommit(() => this.afterUpdate([{id, update}], 'updateOnly'))
+        return id
+      },
+      mergeOnly: async (id, value, options) => {
+        const [{update}] = await this.beforeUpdate([{id, update: value}], 'mergeOnly')
+        const updateValue = this.mapUpdateToEntity(id, update, 'merge')
+        const {data} = await readExisting(id)
+        if (!data) {
+          return null
+        }
+        this.checkVersion(id, data, options?.expectedVersion)
+        scope.write(this, report, this.countWrites('merge'), transaction => {
+          this.writeDocument(transaction, id, 'merge', 'merge', updateValue, data)
+        })
+        scope.afterCommit(() => this.invalidateCache([id]))
+        scope.afterCommit(() => this.afterUpdate([{id, update}], 'mergeOnly'))
+        return id
+      },
+      delete: async id => {
+        await this.beforeDelete([id], 'delete')
+        const {data} = await readExisting(id)
+        if (!data) {
+          return false
+        }
+        if (this.isSoftDeleteEnabled()) {
+          const softDelete = this.mapSoftDelete(FieldValue.serverTimestamp())
+          scope.write(this, report, this.countWrites('update'), transaction => {
+            this.writeDocument(transaction, id, 'delete', 'update', softDelete, data)
+          })
+        } else {
+          scope.write(this, report, this.countWrites('delete'), transaction => {
+            this.writeDocument(transaction, id, 'delete', 'delete', null, data)
+          })
+        }
+        scope.afterCommit(() => this.invalidateCache([id]))
+        scope.afterCommit(() => this.afterDelete([id], 'delete'))
+        return true
+      },
+    }
   }
 
   iterator():CollectionIterator<T> {
     return new CollectionIterator<T>(this);
   }
 
-  async updateOnly(id:string, value:Update<T>):Promise<string|null> {
-    const preExistingEntity = await this.getOne(id)
-    if (!preExistingEntity) {
-      return null
+  query():QueryBuilder<T> {
+    return new QueryBuilder<T>(this);
+  }
+
+  parallelIterator():ParallelCollectionIterator<T> {
+    return new ParallelCollectionIterator<T>(this);
+  }
+
+  /**
+   * Writes the entities matched by the queries to the stream as newline delimited JSON, returns the number written.
+   */
+  async exportTo(stream:NodeJS.WritableStream, queries:Array<QueryFilter<T>> = [], options?:ExportOptions):Promise<number> {
+    return this.instrumentation.run('exportTo', queryShape(queries), async () => {
+      const result = await this.iterator()
+        .queries(queries)
+        .batchSize(options?.batchSize ?? BATCH_SIZE)
+        .includeDeleted(!!options?.includeDeleted)
+        .iterateBatch(async entities => {
+          for (const entity of entities) {
+            // entities are exported as they are stored, so that they can be imported as they are
+            await writeLine(stream, encodeRow(this.toFirestore(entity, false)))
+          }
+        })
+      return result.totalNumberOfResults
+    }, count => count)
+  }
+
+  /**
+   * Writes the entities read from newline delimited JSON as they are, keeping their IDs and timestamps.
+   * Hooks, validation and auditing are skipped. Rows that cannot be read or written are reported instead of stopping the import.
+   */
+  async importFrom(stream:NodeJS.ReadableStream, options:ImportOptions):Promise<ImportResult> {
+    return this.instrumentation.run('importFrom', null, async () => {
+      const result:ImportResult = {numberOfRows: 0, numberOfImported: 0, numberOfSkipped: 0, numberOfFailed: 0, failures: []}
+      const fail = (line:number, id:string|null, error:any) => {
+        const failure = {line, id, error}
+        result.failures.push(failure)
+        result.numberOfFailed++
+        options.onRowError?.(failure)
+      }
+      const batchSize = Math.min(options.batchSize ?? DEFAULT_IMPORT_BATCH_SIZE, BATCH_SIZE)
+      let rows = new Array<ImportRow>()
+      let reportedRows = 0
+      const flush = async () => {
+        if (rows.length > 0) {
+          await this.importRows(rows, options.mode, result, fail)
+          rows = []
+        }
+        if (result.numberOfRows > reportedRows) {
+          reportedRows = result.numberOfRows
+          const {failures, ...progress} = result
+          options.onProgress?.(progress)
+        }
+      }
+
+      let line = 0
+      for await (const text of readLines(stream)) {
+        line++
+        if (text.trim().length === 0) {
+          continue
+        }
+        result.numberOfRows++
+        try {
+          rows.push(decodeRow(line, text, this.firestore))
+        } catch (error:any) {
+          fail(line, null, error)
+        }
+        if (rows.length >= batchSize) {
+          await flush()
+        }
+      }
+      await flush()
+      return result
+    }, result => result.numberOfImported)
+  }
+
+  private async importRows(
+    rows:Array<ImportRow>,
+    mode:ImportMode,
+    result:ImportResult,
+    fail:(line:number, id:string|null, error:any) => void,
+  ) {
+    const tenantField = this.tenantField()
+    // rows are imported into the current tenant, whichever tenant they were exported from
+    let writableRows = tenantField
+      ? rows.map(row => ({...row, data: {...row.data, [tenantField]: this.tenantId()}}))
+      : rows
+    const rowIds = rows.map(row => row.id)
+    if (mode === 'skip-existing') {
+      const snapshots = await this.call('importFrom', rowIds, true, () => this.firestore.getAll(...rowIds.map(id => this.collection.doc(id))))
+      this.onRepoOperation({numberOfReads: snapshots.length})
+      const existingIds = new Set(snapshots.filter(snapshot => snapshot.exists).map(snapshot => snapshot.id))
+      writableRows = writableRows.filter(row => !existingIds.has(row.id))
+      result.numberOfSkipped += rows.length - writableRows.length
+    } else if (mode === 'upsert' && tenantField) {
+      // an upsert must not overwrite a document that belongs to another tenant
+      const snapshots = await this.call('importFrom', rowIds, true, () => this.firestore.getAll(...rowIds.map(id => this.collection.doc(id))))
+      this.onRepoOperation({numberOfReads: snapshots.length})
+      const rejectedIds = new Set<string>()
+      snapshots.forEach((snapshot, index) => {
+        try {
+          this.checkTenant(snapshot.id, snapshot.data())
+        } catch (error:any) {
+          rejectedIds.add(snapshot.id)
+          fail(rows[index].line, snapshot.id, error)
+        }
+      })
+      writableRows = writableRows.filter(row => !rejectedIds.has(row.id))
+    }
+    const write = async (rowsToWrite:Array<ImportRow>) => {
+      // a create fails if it is repeated after it succeeded, a set does not
+      await this.call('importFrom', rowsToWrite.map(row => row.id), mode === 'upsert', () => {
+        const batch = this.firestore.batch()
+        rowsToWrite.forEach(row => {
+          const reference = this.collection.doc(row.id)
+          if (mode === 'upsert') {
+            batch.set(reference, row.data)
+          } else {
+            batch.create(reference, row.data)
+          }
+        })
+        return batch.commit()
+      })
+      this.onRepoOperation({numberOfWrites: rowsToWrite.length})
+      result.numberOfImported += rowsToWrite.length
+    }
+
+    if (writableRows.length === 0) {
+      return
+    }
+    try {
+      await write(writableRows)
+    } catch (batchError:any) {
+      // if the batch fails, each row is written on its own to find out which ones failed
+      for (const row of writableRows) {
+        try {
+          await write([row])
+        } catch (error:any) {
+          fail(row.line, row.id, error)
+        }
+      }
     }
-    const updateValue = this.mapUpdateToEntity(value)
-    await this.collection.doc(id).update(updateValue)
-    this.onRepoOperation({numberOfWrites: 1})
-    return id
+    await this.invalidateCache(writableRows.map(row => row.id))
   }
 
-  async updateOneAndReturn(id:string, value:Update<T>):Promise<T|null> {
-    await this.updateOnly(id, value)
-    return this.getOne(id);
+  async updateOnly(id:string, value:Update<T>, options?:UpdateOptions):Promise<string|null> {
+    return this.instrumentation.run('updateOnly', null, async () => {
+      const [{update}] = await this.beforeUpdate([{id, update: value}], 'updateOnly')
+      const updateValue = this.mapUpdateToEntity(id, update)
+      const result = await this.writeExisting('updateOnly', id, options, 'update', 'update', updateValue)
+      if (result) {
+        await this.afterUpdate([{id, update}], 'updateOnly')
+      }
+      return result
+    }, result => result ? 1 : 0)
   }
 
-  async updateOnlyInTransaction(id:string, value:Update<T>):Promise<string> {
-    await this.firestore.runTransaction(async transaction => {
-      const docRef = this.collection.doc(id)
-      const result = await transaction.get(docRef)
+  /**
+   * Updates the entity, then reads it back from Firestore rather than the cache,
+   * so it is returned with the values the server resolved, such as increments and timestamps.
+   */
+  async updateOneAndReturn(id:string, value:Update<T>, options?:UpdateOptions):Promise<T|null> {
+    return this.instrumentation.run('updateOneAndReturn', null, async () => {
+      const result = await this.updateOnly(id, value, options)
       if (!result) {
-        return
+        return null
       }
-      this.onRepoOperation({numberOfReads: 1});
-      const updateValue = this.mapUpdateToEntity(value)
-      await transaction.update(docRef, updateValue)
-      this.onRepoOperation({numberOfWrites: 1});
-    })
+      const entity = await this.readOne(id, 'updateOneAndReturn')
+      if (!entity || this.isHidden(entity)) {
+        return null
+      }
+      const [hookedEntity] = await this.afterRead([entity], 'updateOneAndReturn')
+      return hookedEntity
+    }, entity => entity ? 1 : 0)
+  }
 
-    return id
+  async updateOnlyInTransaction(id:string, value:Update<T>):Promise<string> {
+    return this.instrumentation.run('updateOnlyInTransaction', null, async () => {
+      const [{update}] = await this.beforeUpdate([{id, update: value}], 'updateOnlyInTransaction')
+      const updateValue = this.mapUpdateToEntity(id, update)
+      await this.call('updateOnlyInTransaction', [id], this.isIdempotent([updateValue]), () => this.firestore.runTransaction(async transaction => {
+        const docRef = this.collection.doc(id)
+        const result = await transaction.get(docRef)
+        if (!result) {
+          return
+        }
+        this.onRepoOperation({numberOfReads: 1});
+        this.checkTenant(id, result.data())
+        this.onRepoOperation(this.writeDocument(transaction, id, 'update', 'update', updateValue, result.data() ?? null));
+      }))
+      await this.invalidateCache([id])
+      await this.afterUpdate([{id, update}], 'updateOnlyInTransaction')
+
+      return id
+    }, () => 1)
   }
 
-  async mergeOnly(id:string, value:Update<T>):Promise<string|null> {
-    const preExistingEntity = await this.getOne(id)
-    if (!preExistingEntity) {
-      return null
-    }
-    const updateValue = this.mapUpdateToEntity(value)
-    await this.collection.doc(id).set(updateValue, {merge: true})
-    this.onRepoOperation({numberOfWrites: 1})
-    return id
+  async mergeOnly(id:string, value:Update<T>, options?:UpdateOptions):Promise<string|null> {
+    return this.instrumentation.run('mergeOnly', null, async () => {
+      const [{update}] = await this.beforeUpdate([{id, update: value}], 'mergeOnly')
+      const updateValue = this.mapUpdateToEntity(id, update, 'merge')
+      const result = await this.writeExisting('mergeOnly', id, options, 'merge', 'merge', updateValue)
+      if (result) {
+        await this.afterUpdate([{id, update}], 'mergeOnly')
+      }
+      return result
+    }, result => result ? 1 : 0)
+  }
+
+  // the existence and version checks are made in the same transaction as the write, so no other writer can get in between
+  private async writeExisting(
+    method:string,
+    id:string,
+    options:UpdateOptions|undefined,
+    operation:AuditOperation,
+    mode:WriteMode,
+    value:DocumentData|null,
+    isWritable:(data:DocumentData) => boolean = data => !this.isHidden(data),
+  ):Promise<string|null> {
+    const result = await this.call(method, [id], this.isIdempotent([value]), () => this.firestore.runTransaction(async transaction => {
+      const docRef = this.collection.doc(id)
+      const snapshot = await transaction.get(docRef)
+      this.onRepoOperation({numberOfReads: 1})
+      const data = snapshot.data()
+      this.checkTenant(id, data)
+      if (!data || !isWritable(data)) {
+        return null
+      }
+      this.checkVersion(id, data, options?.expectedVersion)
+      this.onRepoOperation(this.writeDocument(transaction, id, operation, mode, value, data))
+      return id
+    }))
+    await this.invalidateCache([id])
+    return result
   }
 
   async batchUpdate(updates:Array<BatchUpdate<T>>, options?:{batchSize?:number}):Promise<number> {
-    const batchedUpdates = chunk(updates, options?.batchSize ?? BATCH_SIZE)
-    let count = 0
+    return this.instrumentation.run('batchUpdate', null, async () => {
+      // updates are mapped up front so that an invalid update fails the call before any batch is written
+      const hookedUpdates = await this.beforeUpdate(updates, 'batchUpdate')
+      const updateValues = hookedUpdates.map(update => ({
+        id: update.id,
+        update: this.mapUpdateToEntity(update.id, update.update),
+        expectedVersion: update.expectedVersion,
+      }))
+      const batchedUpdates = chunk(updateValues, this.entitiesPerBatch(options?.batchSize))
+      let count = 0
+
+      // versioned updates need their current version checked, audited updates need the document as it was before the update,
+      // and with soft delete on, the documents are read so that soft deleted ones are not updated
+      const readsAll = this.readsBeforeWrite() || this.isSoftDeleteEnabled()
+      const submitTransactionalBatch = async (updateBatch:Array<{id:string, update:Update<Entity>, expectedVersion?:number}>) => {
+        const readUpdates = readsAll
+          ? updateBatch
+          : updateBatch.filter(update => update.expectedVersion !== undefined)
+        let counts:WriteCounts = {}
+        const ids = updateBatch.map(update => update.id)
+        const idempotent = this.isIdempotent(updateBatch.map(update => update.update))
+        await this.call('batchUpdate', ids, idempotent, () => this.firestore.runTransaction(async transaction => {
+          const snapshots = await transaction.getAll(...readUpdates.map(update => this.collection.doc(update.id)))
+          this.onRepoOperation({numberOfReads: snapshots.length});
+          const befores = new Map<string, DocumentData|null>()
+          snapshots.forEach((snapshot, index) => {
+            this.checkTenant(snapshot.id, snapshot.data())
+            // like a missing entity, a soft deleted one fails the batch
+            if (snapshot.data() && this.isHidden(snapshot.data())) {
+              throw new EntityNotFoundError(this.collectionName, [snapshot.id], 'batchUpdate')
+            }
+            this.checkVersion(snapshot.id, snapshot.data(), readUpdates[index].expectedVersion)
+            befores.set(snapshot.id, snapshot.data() ?? null)
+          })
+          counts = sumWriteCounts(updateBatch.map(update =>
+            this.writeDocument(transaction, update.id, 'update', 'update', update.update, befores.get(update.id) ?? null)
+          ))
+        }))
+        this.onRepoOperation(counts);
+        count += updateBatch.length
+      }
 
-    const submitBatch = async (updateBatch:Array<BatchUpdate<T>>) => {
-      const batch = this.firestore.batch();
-      updateBatch.forEach(update => {
-        const docRef = this.collection.doc(update.id);
-        const updateValue = this.mapUpdateToEntity(update.update)
-        batch.update(docRef, updateValue);
-      });
-      const results = await batch.commit();
-      this.onRepoOperation({numberOfWrites: results.length});
-      count += results.length
-    }
+      const submitBatch = async (updateBatch:Array<{id:string, update:Update<Entity>, expectedVersion?:number}>) => {
+        if (readsAll || updateBatch.some(update => update.expectedVersion !== undefined)) {
+          return submitTransactionalBatch(updateBatch)
+        }
+        // a batch can only be committed once, so each attempt writes a new one
+        const idempotent = this.isIdempotent(updateBatch.map(update => update.update))
+        const results = await this.call('batchUpdate', updateBatch.map(update => update.id), idempotent, () => {
+          const batch = this.firestore.batch();
+          updateBatch.forEach(update => {
+            const docRef = this.collection.doc(update.id);
+            batch.update(docRef, update.update);
+          });
+          return batch.commit();
+        });
+        this.onRepoOperation({numberOfWrites: results.length});
+        count += results.length
+      }
 
-    await Promise.all(
-      batchedUpdates.map(updateBatch => submitBatch(updateBatch))
-    )
+      try {
+        await Promise.all(
+          batchedUpdates.map(updateBatch => submitBatch(updateBatch))
+        )
+      } finally {
+        // some batches may have been written even if another failed
+        await this.invalidateCache(updates.map(update => update.id))
+      }
+      await this.afterUpdate(hookedUpdates, 'batchUpdate')
 
-    return count
+      return count
+    }, count => count)
+  }
+
+  /**
+   * Updates the entities through a BulkWriter, see `bulkCreate`.
+   * Each update is written on its own, so expected versions cannot be checked and are rejected.
+   */
+  async bulkUpdate(updates:Array<BatchUpdate<T>>, options?:BulkWriteOptions):Promise<BulkWriteResult> {
+    return this.instrumentation.run('bulkUpdate', null, async () => {
+      if (updates.some(update => update.expectedVersion !== undefined)) {
+        throw new Error(`bulkUpdate cannot check expected versions in ${this.collectionName}, use batchUpdate instead`)
+      }
+      const hookedUpdates = await this.beforeUpdate(updates, 'bulkUpdate')
+      const updateValues = hookedUpdates.map(update => ({id: update.id, update: this.mapUpdateToEntity(update.id, update.update)}))
+      const befores:Map<string, DocumentData> = this.readsBeforeWrite()
+        ? await this.readDocumentsById(Array.from(new Set(updates.map(update => update.id))), 'bulkUpdate')
+        : new Map()
+      let result:BulkWriteResult
+      try {
+        result = await this.bulkWrite(
+          updateValues.map(({id, update}) => ({id, operation: 'update', mode: 'update', data: update, before: befores.get(id) ?? null})),
+          options,
+        )
+      } finally {
+        await this.invalidateCache(updates.map(update => update.id))
+      }
+      const succeededIds = new Set(result.succeeded)
+      await this.afterUpdate(hookedUpdates.filter(update => succeededIds.has(update.id)), 'bulkUpdate')
+      return result
+    }, result => result.succeeded.length)
   }
 
   async delete(id:string):Promise<boolean> {
-    const entity:T|null = await this.getOne(id);
-    if (!entity) {
-      return false;
-    }
-    await this.collection.doc(id).delete();
-    this.onRepoOperation({numberOfDeletes: 1});
-    return true;
+    return this.instrumentation.run('delete', null, async () => {
+      await this.beforeDelete([id], 'delete')
+      const result = this.isSoftDeleteEnabled()
+        ? await this.writeExisting('delete', id, undefined, 'delete', 'update', this.mapSoftDelete(FieldValue.serverTimestamp()))
+        : await this.writeExisting('delete', id, undefined, 'delete', 'delete', null)
+      if (!result) {
+        return false;
+      }
+      await this.afterDelete([id], 'delete')
+      return true;
+    }, deleted => deleted ? 1 : 0)
   }
 
   async batchDelete(ids:Array<string>):Promise<number> {
-    const batch = this.firestore.batch();
-    ids.forEach(id => {
-      const docRef = this.collection.doc(id);
-      batch.delete(docRef);
-    });
-    const results = await batch.commit();
-    this.onRepoOperation({numberOfDeletes: results.length});
-    return results.length;
+    return this.instrumentation.run('batchDelete', null, async () => {
+      await this.beforeDelete(ids, 'batchDelete')
+      if (!this.isSoftDeleteEnabled() && !this.readsBeforeWrite()) {
+        const count = await this.batchHardDelete(ids, new Map(), 'batchDelete')
+        await this.afterDelete(ids, 'batchDelete')
+        return count
+      }
+      // only documents that exist and are not already deleted are written, an update to a missing document would fail the batch
+      const befores = await this.readDocumentsById(Array.from(new Set(ids)), 'batchDelete')
+      const existingIds = Array.from(befores.entries())
+        .filter(([, data]) => !this.isHidden(data))
+        .map(([id]) => id)
+      const count = this.isSoftDeleteEnabled()
+        ? await this.batchSoftDelete(existingIds, befores, 'batchDelete')
+        : await this.batchHardDelete(existingIds, befores, 'batchDelete')
+      await this.afterDelete(existingIds, 'batchDelete')
+      return count
+    }, count => count)
+  }
+
+  /**
+   * Deletes the entities through a BulkWriter, see `bulkCreate`.
+   * IDs of entities that do not exist, or are already soft deleted, are reported as succeeded as there is nothing to delete.
+   */
+  async bulkDelete(ids:Array<string>, options?:BulkWriteOptions):Promise<BulkWriteResult> {
+    return this.instrumentation.run('bulkDelete', null, async () => {
+      await this.beforeDelete(ids, 'bulkDelete')
+      const uniqueIds = Array.from(new Set(ids))
+      let befores = new Map<string, DocumentData>()
+      let existingIds = uniqueIds
+      // like batchDelete, a soft delete of a missing document would fail, so only documents that exist are written
+      if (this.isSoftDeleteEnabled() || this.readsBeforeWrite()) {
+        befores = await this.readDocumentsById(uniqueIds, 'bulkDelete')
+        existingIds = Array.from(befores.entries())
+          .filter(([, data]) => !this.isHidden(data))
+          .map(([id]) => id)
+      }
+      const items:Array<BulkWriteItem> = existingIds.map(id => this.isSoftDeleteEnabled()
+        ? {id, operation: 'delete', mode: 'update', data: this.mapSoftDelete(FieldValue.serverTimestamp()), before: befores.get(id) ?? null}
+        : {id, operation: 'delete', mode: 'delete', data: null, before: befores.get(id) ?? null}
+      )
+      let result:BulkWriteResult
+      try {
+        result = await this.bulkWrite(items, options)
+      } finally {
+        await this.invalidateCache(existingIds)
+      }
+      const writtenIds = new Set(existingIds)
+      const deletedIds = result.succeeded
+      result.succeeded = uniqueIds.filter(id => !writtenIds.has(id) || deletedIds.includes(id))
+      await this.afterDelete(deletedIds, 'bulkDelete')
+      return result
+    }, result => result.succeeded.length)
+  }
+
+  async restore(id:string):Promise<boolean> {
+    return this.instrumentation.run('restore', null, async () => {
+      const result = await this.writeExisting(
+        'restore',
+        id,
+        undefined,
+        'restore',
+        'update',
+        this.mapSoftDelete(null),
+        data => !!data[DELETED_AT_FIELD],
+      )
+      return !!result;
+    }, restored => restored ? 1 : 0)
+  }
+
+  async purgeDeleted(olderThan:Timestamp|Date, options?:{batchSize?:number}):Promise<number> {
+    return this.instrumentation.run('purgeDeleted', PURGE_QUERY_SHAPE, async () => {
+      const batchSize = this.entitiesPerBatch(options?.batchSize)
+      const deletedBefore = olderThan instanceof Date ? Timestamp.fromDate(olderThan) : olderThan
+      let count = 0
+      // purged documents drop out of the query, so each page is read from the start rather than after a cursor
+      while (true) {
+        const entities = await this.getMany(
+          [{field: DELETED_AT_FIELD, operation: "<", value: deletedBefore}],
+          {limit: batchSize, includeDeleted: true},
+        )
+        if (entities.length > 0) {
+          const ids = entities.map(entity => entity.id)
+          const befores = this.readsBeforeWrite() ? await this.readDocumentsById(ids, 'purgeDeleted') : new Map<string, DocumentData>()
+          count += await this.batchHardDelete(ids, befores, 'purgeDeleted')
+        }
+        if (entities.length < batchSize) {
+          return count
+        }
+      }
+    }, count => count)
+  }
+
+  /**
+   * Re-encrypts the encrypted fields of every document that are not encrypted with the current key, including soft deleted ones,
+   * and encrypts any that were written before they were encrypted. Returns the number of documents rewritten.
+   *
+   * Each page is read and rewritten in a transaction, so a change made in between is not lost.
+   * Only the encrypted fields are written, so `updatedAt` and `version` are left as they are and hooks are not run.
+   */
+  async rotateEncryptionKeys(options?:{batchSize?:number}):Promise<number> {
+    return this.instrumentation.run('rotateEncryptionKeys', null, async () => {
+      const encryptor = this.encryptor
+      if (!encryptor) {
+        throw new Error(`Encryption is not configured for ${this.collectionName}`)
+      }
+      const batchSize = Math.min(options?.batchSize ?? BATCH_SIZE, BATCH_SIZE)
+      let count = 0
+      let lastId:string|null = null
+      while (true) {
+        let reference = this.collection.orderBy(FieldPath.documentId()).limit(batchSize)
+        if (lastId !== null) {
+          reference = reference.startAfter(lastId)
+        }
+        // each page is encrypted from what is read in its transaction, so it can be rewritten again
+        const page:{size:number, lastId:string|null, rotated:number} = await this.call('rotateEncryptionKeys', [], true, () => this.firestore.runTransaction(async transaction => {
+          const querySnapshot = await transaction.get(reference)
+          this.onRepoOperation({numberOfReads: querySnapshot.size > 0 ? querySnapshot.size : 1})
+          let rotated = 0
+          querySnapshot.docs.forEach(snapshot => {
+            const update = encryptor.rotatedFields(snapshot.data())
+            if (Object.keys(update).length > 0) {
+              transaction.update(snapshot.ref, update)
+              rotated++
+            }
+          })
+          return {size: querySnapshot.size, lastId: querySnapshot.docs[querySnapshot.size - 1]?.id ?? null, rotated}
+        }))
+        if (page.rotated > 0) {
+          this.onRepoOperation({numberOfWrites: page.rotated})
+        }
+        count += page.rotated
+        lastId = page.lastId
+        if (page.size < batchSize) {
+          // the decrypted values are unchanged, so cached entities are still valid
+          return count
+        }
+      }
+    }, count => count)
+  }
+
+  /**
+   * Returns the history records of the entity with the given ID, oldest first. Only written when the audit option is on.
+   */
+  async getHistory(id:string, options?:{limit?:number}):Promise<Array<HistoryRecord>> {
+    return this.instrumentation.run('getHistory', null, async () => {
+      let reference = this.historyCollection(id).orderBy("timestamp", "asc")
+      if (options?.limit) {
+        reference = reference.limit(options.limit)
+      }
+      const querySnapshot = await this.call('getHistory', [id], true, () => reference.get())
+      const reads = querySnapshot.size > 0 ? querySnapshot.size : 1; // queries that return 0 results still count as one read.
+      this.onRepoOperation({numberOfReads: reads});
+      return querySnapshot.docs.map(snapshot => <HistoryRecord>snapshot.data())
+    }, records => records.length)
+  }
+
+  private mapSoftDelete(deletedAt:FieldValue|null):Update<Entity> {
+    const version = this.isVersioningEnabled() ? {[VERSION_FIELD]: FieldValue.increment(1)} : {};
+    return {[DELETED_AT_FIELD]: deletedAt, updatedAt: FieldValue.serverTimestamp(), ...version}
+  }
+
+  // the entities as they were before the delete are only used for the history records when auditing is on
+  private async batchSoftDelete(ids:Array<string>, befores:Map<string, DocumentData>, method:string):Promise<number> {
+    let count = 0
+    await Promise.all(
+      chunk(ids, this.entitiesPerBatch()).map(async idBatch => {
+        const softDelete = this.mapSoftDelete(FieldValue.serverTimestamp())
+        let counts = new Array<WriteCounts>()
+        await this.call(method, idBatch, this.isIdempotent([softDelete]), () => {
+          const batch = this.firestore.batch();
+          counts = idBatch.map(id => this.writeDocument(batch, id, 'delete', 'update', softDelete, befores.get(id) ?? null));
+          return batch.commit();
+        });
+        this.onRepoOperation(sumWriteCounts(counts));
+        await this.invalidateCache(idBatch)
+        count += idBatch.length
+      })
+    )
+    return count
+  }
+
+  private async batchHardDelete(ids:Array<string>, befores:Map<string, DocumentData>, method:string):Promise<number> {
+    let count = 0
+    await Promise.all(
+      chunk(ids, this.entitiesPerBatch()).map(async idBatch => {
+        let counts = new Array<WriteCounts>()
+        await this.call(method, idBatch, this.isIdempotent([]), () => {
+          const batch = this.firestore.batch();
+          counts = idBatch.map(id => this.writeDocument(batch, id, 'delete', 'delete', null, befores.get(id) ?? null));
+          return batch.commit();
+        });
+        this.onRepoOperation(sumWriteCounts(counts));
+        await this.invalidateCache(idBatch)
+        count += idBatch.length
+      })
+    )
+    return count
   }
 
 }
@@ -291,18 +1965,128 @@ export interface IteratorResult {
   finished:boolean,
 }
 
-export class CollectionIterator<T extends Entity> {
+export type CollectionGroupOptions<T> = Pick<FirestoreOptions<T>, "opStatHandler"|"validator"|"softDelete"|"converter"|"encryption"|"telemetry"|"retry"|"tenancy">
+
+/**
+ * Queries every collection with the given ID at once, e.g. every `orders` subcollection, whatever its parent.
+ * Each entity returned has the path of its parent document set as `parentPath`.
+ */
+export class CollectionGroupRepository<T extends AnyEntity> implements QueryableRepository<WithParentPath<T>> {
+
+  private readonly firestore:Firestore;
+  private readonly query:FirebaseFirestore.Query<any>;
+  private readonly encryptor:FieldEncryptor|null;
+  private readonly converter:EntityConverter|null;
+  private readonly instrumentation:Instrumentation;
+
+  constructor(
+    firestore:Firestore|InMemoryFirestore,
+    private readonly collectionId:string,
+    private readonly options?:CollectionGroupOptions<T>,
+  ) {
+    if (options?.tenancy?.strategy === 'collection') {
+      throw new Error(`Collection group ${collectionId} cannot be scoped to tenants that each have a collection of their own`)
+    }
+    this.firestore = firestore instanceof InMemoryFirestore ? firestore.asFirestore() : firestore
+    this.query = this.firestore.collectionGroup(collectionId)
+    this.encryptor = options?.encryption ? new FieldEncryptor(collectionId, options.encryption, this.firestore) : null
+    this.converter = entityConverter(options?.converter, this.encryptor)
+    this.instrumentation = new Instrumentation(options, () => ({collectionName: collectionId}))
+  }
+
+  getFirebaseQuery():FirebaseFirestore.Query<any> {
+    return this.query
+  }
+
+  private onRepoOperation(stat:Omit<RepositoryOperationStats, "collectionName">) {
+    this.instrumentation.report(stat)
+  }
+
+  // collection group repositories only read, so every call can be retried
+  private async call<R>(method:string, action:() => Promise<R>):Promise<R> {
+    return callWithRetry(
+      this.options?.retry ?? null,
+      {collectionName: this.collectionId, ids: [], operation: method},
+      action,
+      () => this.onRepoOperation({numberOfRetries: 1}),
+    )
+  }
+
+  private mapSnapshotToEntity(snapshot:FirebaseFirestore.QueryDocumentSnapshot):WithParentPath<T> {
+    const converter = this.converter
+    const entity = validate<T>(
+      this.options?.validator?.read,
+      <T>(converter ? converter.fromFirestore(snapshot) : snapshot.data()),
+      {collectionName: snapshot.ref.parent.path, documentId: snapshot.id, operation: 'read'}
+    )
+    return <WithParentPath<T>>{...entity, parentPath: snapshot.ref.parent.parent?.path ?? ''}
+  }
+
+  // documents in a collection group are only unique by path, so cursors are found by querying on the id field
+  private async getCursorSnapshot(id:string, method:string):Promise<FirebaseFirestore.DocumentSnapshot> {
+    const tenantField = tenantFieldOf(this.options?.tenancy)
+    const query = tenantField
+      ? this.query.where(tenantField, "==", tenantIdOf(this.options?.tenancy, this.collectionId))
+      : this.query
+    const querySnapshot = await this.call(method, () => query.where("id", "==", id).limit(1).get())
+    this.onRepoOperation({numberOfReads: 1})
+    if (querySnapshot.empty) {
+      throw new Error(`Failed to find entity with id ${id} in collection group ${this.collectionId}`)
+    }
+    return querySnapshot.docs[0]
+  }
+
+  async getMany(
+    queries:Array<QueryFilter<T>>,
+    queryOptions:QueryOptions<T>|null = null
+  ):Promise<Array<WithParentPath<T>>> {
+    return this.instrumentation.run('getMany', queryShape(queries, queryOptions), async () => {
+      const reference = await buildQuery(
+        this.query,
+        [
+          ...encryptQueries(this.encryptor, queries),
+          ...tenantQueries<T>(this.options?.tenancy, this.collectionId),
+          ...softDeleteQueries<T>(this.options?.softDelete, queryOptions),
+        ],
+        queryOptions,
+        id => this.getCursorSnapshot(id, 'getMany'),
+      )
+      const querySnapshot = await this.call('getMany', () => reference.get())
+      const reads = querySnapshot.size > 0 ? querySnapshot.size : 1; // queries that return 0 results still count as one read.
+      this.onRepoOperation({ numberOfReads: reads});
+      return querySnapshot.docs.map(snapshot => this.mapSnapshotToEntity(snapshot));
+    }, entities => entities.length)
+  }
+
+  async getManyById(ids:Array<string>, options?:ReadOptions):Promise<Array<WithParentPath<T>>> {
+    return this.instrumentation.run('getManyById', null, async () => {
+      const idBatches:Array<Array<string>> = chunk<string>(ids, MAX_ALLOWED_IN_IN_CLAUSE)
+      const resultBatches = await Promise.all(
+        idBatches.map((idBatch) => this.getMany([{ field: "id", operation: "in", value: idBatch }], {...options})),
+      );
+      return flatten(resultBatches);
+    }, entities => entities.length)
+  }
+
+  iterator():CollectionIterator<WithParentPath<T>> {
+    return new CollectionIterator<WithParentPath<T>>(this);
+  }
+
+}
+
+export class CollectionIterator<T extends AnyEntity> {
 
   private _batchSize = BATCH_SIZE;
   private _sort:Array<Sort<T>> = [];
-  private _queries:Array<Query<T>> = [];
+  private _queries:Array<QueryFilter<T>> = [];
   private _startAfterId:string|null = null;
+  private _includeDeleted = false;
 
   constructor(
-    readonly repo:FirestoreCrudRepository<T>
+    readonly repo:QueryableRepository<T>
   ) {}
 
-  queries(queries:Array<Query<T>>):CollectionIterator<T> {
+  queries(queries:Array<QueryFilter<T>>):CollectionIterator<T> {
     this._queries = queries;
     return this;
   }
@@ -322,6 +2106,11 @@ export class CollectionIterator<T extends Entity> {
     return this;
   }
 
+  includeDeleted(includeDeleted:boolean):CollectionIterator<T> {
+    this._includeDeleted = includeDeleted;
+    return this;
+  }
+
   async iterateBatch(entityBatchConsumer:(entities:Array<T>) => Promise<boolean|void>):Promise<IteratorResult>  {
     let totalNumberOfResults = 0;
     let lastProcessedId:string|null = null;
@@ -332,6 +2121,7 @@ export class CollectionIterator<T extends Entity> {
       const queryOptions:QueryOptions<T> = {
         limit,
         sort: this._sort,
+        includeDeleted: this._includeDeleted,
       }
       if (startProcessingAfterId || this._startAfterId) {
         // @ts-ignore
@@ -400,7 +2190,3 @@ export class CollectionIterator<T extends Entity> {
   }
 
 }
-
-
-
-
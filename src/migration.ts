@@ -0,0 +1,262 @@
+import {DocumentReference, FieldValue, Timestamp} from "@google-cloud/firestore";
+import {AnyEntity, BatchUpdate, FirestoreCrudRepository, QueryFilter, SortOrder, Update} from "./index";
+import {RateLimiter} from "./concurrency";
+
+/**
+ * A numbered change to the entities in a collection.
+ *
+ * `migrate` is called for each entity matched by the `queries` and returns the update to make to it,
+ * or nothing if the entity does not need changing. Migrations should be safe to run more than once on the same entity,
+ * as a failed migration is run again from the start.
+ */
+export interface Migration<T extends AnyEntity> {
+  version:number,
+  name:string,
+  queries?:Array<QueryFilter<T>>,
+  includeDeleted?:boolean,
+  migrate:(entity:T) => Update<T>|null|undefined|void|Promise<Update<T>|null|undefined|void>,
+}
+
+export type MigrationStatus = 'running'|'applied'|'failed'
+
+/**
+ * The record kept in the metadata collection for each migration that has been run.
+ */
+export interface MigrationRecord {
+  collectionPath:string,
+  tenantId:string|null,
+  version:number,
+  name:string,
+  status:MigrationStatus,
+  lastProcessedId:string|null,
+  numberOfProcessed:number,
+  numberOfUpdated:number,
+  numberOfFailed:number,
+  startedAt:Timestamp,
+  finishedAt:Timestamp|null,
+}
+
+export interface MigrationFailure {
+  version:number,
+  id:string,
+  error:any,
+}
+
+export interface MigrationResult {
+  version:number,
+  name:string,
+  status:MigrationStatus,
+  dryRun:boolean,
+  resumedAfterId:string|null,
+  lastProcessedId:string|null,
+  numberOfProcessed:number,
+  numberOfUpdated:number,
+  failures:Array<MigrationFailure>,
+}
+
+export interface MigrationRunnerOptions {
+  metadataCollectionName?:string,
+  batchSize?:number,
+  maxWritesPerSecond?:number,
+  dryRun?:boolean,
+  onDocumentError?:(failure:MigrationFailure) => void,
+}
+
+export const DEFAULT_MIGRATION_METADATA_COLLECTION_NAME = "_migrations";
+export const DEFAULT_MIGRATION_BATCH_SIZE = 100;
+
+/**
+ * Applies the pending migrations of a collection in version order, recording each one in a metadata collection.
+ *
+ * A checkpoint is saved after each batch of entities, so a run that crashes resumes from where it got to.
+ * A migration that fails for any entity is recorded as failed and stops the run, as later migrations may depend on it.
+ */
+export class MigrationRunner<T extends AnyEntity> {
+
+  private readonly migrations = new Map<number, Migration<T>>()
+
+  constructor(
+    private readonly repo:FirestoreCrudRepository<T>,
+    private readonly options:MigrationRunnerOptions = {},
+  ) {}
+
+  register(...migrations:Array<Migration<T>>):MigrationRunner<T> {
+    migrations.forEach(migration => {
+      if (!Number.isInteger(migration.version) || migration.version < 1) {
+        throw new Error(`Migration versions must be positive integers, got ${migration.version} for ${migration.name}`)
+      }
+      if (this.migrations.has(migration.version)) {
+        throw new Error(`A migration with version ${migration.version} is already registered for ${this.collectionPath()}`)
+      }
+      this.migrations.set(migration.version, migration)
+    })
+    return this
+  }
+
+  /**
+   * The registered migrations that have not been applied, in the order they will be run.
+   */
+  async pending():Promise<Array<Migration<T>>> {
+    const pending = new Array<Migration<T>>()
+    for (const migration of this.orderedMigrations()) {
+      const record = await this.readRecord(migration)
+      if (record?.status !== 'applied') {
+        pending.push(migration)
+      }
+    }
+    return pending
+  }
+
+  async history():Promise<Array<MigrationRecord>> {
+    const tenantId = this.repo.getTenantId()
+    const querySnapshot = await this.metadataCollection()
+      .where("collectionPath", "==", this.collectionPath())
+      .get()
+    return querySnapshot.docs
+      .map(snapshot => <MigrationRecord>snapshot.data())
+      .filter(record => (record.tenantId ?? null) === tenantId)
+      .sort((left, right) => left.version - right.version)
+  }
+
+  async run():Promise<Array<MigrationResult>> {
+    const results = new Array<MigrationResult>()
+    for (const migration of await this.pending()) {
+      const result = await this.apply(migration)
+      results.push(result)
+      if (result.status === 'failed') {
+        break
+      }
+    }
+    return results
+  }
+
+  private async apply(migration:Migration<T>):Promise<MigrationResult> {
+    const dryRun = !!this.options.dryRun
+    const recordRef = this.recordRef(migration)
+    const record = await this.readRecord(migration)
+    // only a run that stopped part way through is resumed, a failed migration is run again from the start
+    const resuming = record?.status === 'running'
+    const result:MigrationResult = {
+      version: migration.version,
+      name: migration.name,
+      status: 'running',
+      dryRun,
+      resumedAfterId: resuming ? record!.lastProcessedId : null,
+      lastProcessedId: resuming ? record!.lastProcessedId : null,
+      numberOfProcessed: resuming ? record!.numberOfProcessed : 0,
+      numberOfUpdated: resuming ? record!.numberOfUpdated : 0,
+      failures: [],
+    }
+    const rateLimiter = this.options.maxWritesPerSecond ? new RateLimiter(this.options.maxWritesPerSecond) : null
+    const fail = (id:string, error:any) => {
+      const failure = {version: migration.version, id, error}
+      result.failures.push(failure)
+      this.options.onDocumentError?.(failure)
+    }
+
+    if (!dryRun) {
+      await recordRef.set({
+        collectionPath: this.collectionPath(),
+        tenantId: this.repo.getTenantId(),
+        version: migration.version,
+        name: migration.name,
+        status: 'running',
+        lastProcessedId: result.lastProcessedId,
+        numberOfProcessed: result.numberOfProcessed,
+        numberOfUpdated: result.numberOfUpdated,
+        numberOfFailed: 0,
+        startedAt: resuming ? record!.startedAt : FieldValue.serverTimestamp(),
+        finishedAt: null,
+      })
+    }
+
+    // a resumed run filters on the ID rather than starting after the checkpoint's document, which may have been deleted since
+    const queries:Array<QueryFilter<T>> = result.resumedAfterId === null
+      ? migration.queries ?? []
+      : [...migration.queries ?? [], {field: 'id', operation: '>', value: result.resumedAfterId}]
+    await this.repo.iterator()
+      .queries(queries)
+      .sort(result.resumedAfterId === null ? [] : [{field: 'id', order: SortOrder.ASC}])
+      .includeDeleted(!!migration.includeDeleted)
+      .batchSize(this.options.batchSize ?? DEFAULT_MIGRATION_BATCH_SIZE)
+      .iterateBatch(async entities => {
+        const updates = new Array<BatchUpdate<T>>()
+        for (const entity of entities) {
+          try {
+            const update = await migration.migrate(entity)
+            if (update) {
+              updates.push({id: entity.id, update})
+            }
+          } catch (error:any) {
+            fail(entity.id, error)
+          }
+        }
+        if (!dryRun && updates.length > 0) {
+          await rateLimiter?.acquire(updates.length)
+          result.numberOfUpdated += await this.writeUpdates(updates, fail)
+        } else {
+          result.numberOfUpdated += updates.length
+        }
+        result.numberOfProcessed += entities.length
+        result.lastProcessedId = entities[entities.length - 1].id
+        if (!dryRun) {
+          await recordRef.update({
+            lastProcessedId: result.lastProcessedId,
+            numberOfProcessed: result.numberOfProcessed,
+            numberOfUpdated: result.numberOfUpdated,
+            numberOfFailed: result.failures.length,
+          })
+        }
+      })
+
+    result.status = result.failures.length > 0 ? 'failed' : 'applied'
+    if (!dryRun) {
+      await recordRef.update({status: result.status, finishedAt: FieldValue.serverTimestamp()})
+    }
+    return result
+  }
+
+  // if the batch fails, each update is retried on its own to find out which ones failed
+  private async writeUpdates(updates:Array<BatchUpdate<T>>, fail:(id:string, error:any) => void):Promise<number> {
+    try {
+      return await this.repo.batchUpdate(updates)
+    } catch (batchError:any) {
+      let count = 0
+      for (const update of updates) {
+        try {
+          count += await this.repo.batchUpdate([update])
+        } catch (error:any) {
+          fail(update.id, error)
+        }
+      }
+      return count
+    }
+  }
+
+  private orderedMigrations():Array<Migration<T>> {
+    return Array.from(this.migrations.values()).sort((left, right) => left.version - right.version)
+  }
+
+  private collectionPath():string {
+    return this.repo.getFirebaseCollection().path
+  }
+
+  private metadataCollection() {
+    return this.repo.getFirebaseCollection().firestore
+      .collection(this.options.metadataCollectionName ?? DEFAULT_MIGRATION_METADATA_COLLECTION_NAME)
+  }
+
+  // document IDs cannot contain slashes, so the collection path is encoded.
+  // tenants can share a collection, and each tenant's entities are only migrated when it runs the migration, so each gets a record of its own
+  private recordRef(migration:Migration<T>):DocumentReference {
+    const tenantId = this.repo.getTenantId()
+    const tenant = tenantId === null ? '' : `@${encodeURIComponent(tenantId)}`
+    return this.metadataCollection().doc(`${encodeURIComponent(this.collectionPath())}${tenant}@${migration.version}`)
+  }
+
+  private async readRecord(migration:Migration<T>):Promise<MigrationRecord|null> {
+    const snapshot = await this.recordRef(migration).get()
+    return snapshot.exists ? <MigrationRecord>snapshot.data() : null
+  }
+
+}
@@ -0,0 +1,74 @@
+import {once} from "events";
+import {createInterface} from "readline";
+import {DocumentData, Firestore} from "@google-cloud/firestore";
+import {decodeValue, encodeValue, JsonValue} from "./serialization";
+
+/**
+ * Entities are exported as newline delimited JSON, one entity per line, with values JSON cannot represent encoded
+ * as tagged objects so that they are read back as the same types.
+ */
+
+export type ImportMode = 'create'|'upsert'|'skip-existing'
+
+export interface ExportOptions {
+  batchSize?:number,
+  includeDeleted?:boolean,
+}
+
+export interface ImportProgress {
+  numberOfRows:number,
+  numberOfImported:number,
+  numberOfSkipped:number,
+  numberOfFailed:number,
+}
+
+export interface ImportFailure {
+  line:number,
+  id:string|null,
+  error:any,
+}
+
+export interface ImportResult extends ImportProgress {
+  failures:Array<ImportFailure>,
+}
+
+export interface ImportOptions {
+  mode:ImportMode,
+  batchSize?:number,
+  onProgress?:(progress:ImportProgress) => void,
+  onRowError?:(failure:ImportFailure) => void,
+}
+
+export interface ImportRow {
+  line:number,
+  id:string,
+  data:DocumentData,
+}
+
+export const DEFAULT_IMPORT_BATCH_SIZE = 500;
+
+export const encodeRow = (entity:DocumentData):string => {
+  return JSON.stringify(encodeValue(entity))
+}
+
+export const decodeRow = (line:number, text:string, firestore:Firestore):ImportRow => {
+  const data = decodeValue(<JsonValue>JSON.parse(text), firestore)
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`Line ${line} is not an object`)
+  }
+  if (typeof data.id !== 'string' || data.id.length === 0) {
+    throw new Error(`Line ${line} does not have an id`)
+  }
+  return {line, id: data.id, data}
+}
+
+// waits for the stream to drain when its buffer is full, so a large export is not held in memory
+export const writeLine = async (stream:NodeJS.WritableStream, text:string) => {
+  if (!stream.write(`${text}\n`)) {
+    await once(stream, 'drain')
+  }
+}
+
+export const readLines = (stream:NodeJS.ReadableStream):AsyncIterable<string> => {
+  return createInterface({input: stream, crlfDelay: Infinity})
+}
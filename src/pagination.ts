@@ -0,0 +1,62 @@
+import {Firestore} from "@google-cloud/firestore";
+import {Sort} from "./index";
+import {decodeValue, encodeValue, JsonValue} from "./serialization";
+import {InvalidCursorError} from "./errors";
+
+export type PageDirection = 'next'|'prev'
+
+export interface PageOptions<T> {
+  limit:number,
+  sort?:Array<Sort<T>>,
+  cursor?:string|null,
+  includeDeleted?:boolean,
+}
+
+export interface Page<T> {
+  items:Array<T>,
+  nextCursor:string|null,
+  prevCursor:string|null,
+}
+
+export interface PageCursor {
+  direction:PageDirection,
+  values:Array<any>,
+}
+
+interface EncodedPageCursor {
+  d:PageDirection,
+  s:string,
+  v:Array<JsonValue>,
+}
+
+// cursors are only valid for the sort they were created with, so the sort is kept in the cursor to check against
+const sortSignature = <T>(sort:Array<Sort<T>>):string => {
+  return sort.map(({field, order}) => `${field}:${order}`).join(',')
+}
+
+/**
+ * Encodes the sort field values and ID of the document a page starts or ends at as an opaque, URL safe string.
+ */
+export const encodePageCursor = <T>(direction:PageDirection, sort:Array<Sort<T>>, values:Array<any>):string => {
+  const cursor:EncodedPageCursor = {d: direction, s: sortSignature(sort), v: values.map(encodeValue)}
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url")
+}
+
+export const decodePageCursor = <T>(cursor:string, sort:Array<Sort<T>>, firestore:Firestore):PageCursor => {
+  let decoded:EncodedPageCursor
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString())
+  } catch (error:any) {
+    throw new InvalidCursorError(cursor, "it could not be decoded")
+  }
+  if (!decoded || (decoded.d !== 'next' && decoded.d !== 'prev') || !Array.isArray(decoded.v)) {
+    throw new InvalidCursorError(cursor, "it could not be decoded")
+  }
+  if (decoded.s !== sortSignature(sort) || decoded.v.length !== sort.length + 1) {
+    throw new InvalidCursorError(cursor, "it was created for a different sort")
+  }
+  return {
+    direction: decoded.d,
+    values: decoded.v.map(value => decodeValue(value, firestore)),
+  }
+}
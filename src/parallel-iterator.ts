@@ -0,0 +1,231 @@
+import {DocumentReference} from "@google-cloud/firestore";
+import {AnyEntity, BATCH_SIZE, FirestoreCrudRepository, IteratorResult, Query, QueryFilter, SortOrder} from "./index";
+import {mapWithConcurrency} from "./concurrency";
+
+export type PartitionStrategy = 'partition-query'|'id-range'
+
+/**
+ * A range of entity IDs, from `startAtId` up to but not including `endBeforeId`, `null` leaves that end open.
+ *
+ * Partitions are plain values, so they can be saved or sent to other processes to be scanned there.
+ * The `startAfterId` is set when resuming a partition that was part way through.
+ */
+export interface IteratorPartition {
+  index:number,
+  startAtId:string|null,
+  endBeforeId:string|null,
+  startAfterId?:string|null,
+}
+
+export interface PartitionResult extends IteratorResult {
+  partition:IteratorPartition,
+}
+
+export interface ParallelIteratorResult extends IteratorResult {
+  partitions:Array<PartitionResult>,
+}
+
+export const DEFAULT_NUMBER_OF_WORKERS = 4;
+// the characters used by the default UUID IDs, in the order Firestore sorts them
+export const UUID_ID_ALPHABET = "-0123456789abcdef";
+
+/**
+ * Splits the ID space into ranges of about the same size, assuming IDs are made up of evenly spread characters from the alphabet.
+ */
+export const splitIdRange = (partitionCount:number, alphabet:string = UUID_ID_ALPHABET):Array<string> => {
+  const characters = Array.from(new Set(alphabet.split(''))).sort()
+  // two character prefixes give enough room to split into hundreds of partitions
+  const numberOfPrefixes = characters.length * characters.length
+  const boundaries = new Array<string>()
+  for (let i = 1; i < partitionCount; i++) {
+    const prefix = Math.floor(i * numberOfPrefixes / partitionCount)
+    const boundary = characters[Math.floor(prefix / characters.length)] + characters[prefix % characters.length]
+    if (!boundaries.includes(boundary)) {
+      boundaries.push(boundary)
+    }
+  }
+  return boundaries
+}
+
+const toPartitions = (boundaries:Array<string>):Array<IteratorPartition> => {
+  const partitions = new Array<IteratorPartition>()
+  for (let i = 0; i <= boundaries.length; i++) {
+    partitions.push({
+      index: i,
+      startAtId: i > 0 ? boundaries[i - 1] : null,
+      endBeforeId: i < boundaries.length ? boundaries[i] : null,
+    })
+  }
+  return partitions
+}
+
+/**
+ * Scans a collection by splitting it into ranges of IDs and scanning several ranges at once.
+ * Each range is scanned in ID order with a CollectionIterator.
+ */
+export class ParallelCollectionIterator<T extends AnyEntity> {
+
+  private _batchSize = BATCH_SIZE;
+  private _queries:Array<QueryFilter<T>> = [];
+  private _includeDeleted = false;
+  private _workers = DEFAULT_NUMBER_OF_WORKERS;
+  private _partitionCount:number|null = null;
+  private _strategy:PartitionStrategy = 'partition-query';
+  private _idAlphabet = UUID_ID_ALPHABET;
+  private _partitions:Array<IteratorPartition>|null = null;
+
+  constructor(
+    readonly repo:FirestoreCrudRepository<T>
+  ) {}
+
+  queries(queries:Array<QueryFilter<T>>):ParallelCollectionIterator<T> {
+    this._queries = queries;
+    return this;
+  }
+
+  batchSize(batchSize:number):ParallelCollectionIterator<T> {
+    this._batchSize = batchSize;
+    return this;
+  }
+
+  includeDeleted(includeDeleted:boolean):ParallelCollectionIterator<T> {
+    this._includeDeleted = includeDeleted;
+    return this;
+  }
+
+  workers(workers:number):ParallelCollectionIterator<T> {
+    this._workers = workers;
+    return this;
+  }
+
+  partitionCount(partitionCount:number):ParallelCollectionIterator<T> {
+    this._partitionCount = partitionCount;
+    return this;
+  }
+
+  strategy(strategy:PartitionStrategy):ParallelCollectionIterator<T> {
+    this._strategy = strategy;
+    return this;
+  }
+
+  idAlphabet(idAlphabet:string):ParallelCollectionIterator<T> {
+    this._idAlphabet = idAlphabet;
+    return this;
+  }
+
+  /**
+   * Scans these partitions instead of splitting the collection, e.g. partitions handed to this process by another.
+   */
+  partitions(partitions:Array<IteratorPartition>|null):ParallelCollectionIterator<T> {
+    this._partitions = partitions;
+    return this;
+  }
+
+  /**
+   * Splits the collection into partitions, defaults to one partition per worker.
+   */
+  async createPartitions():Promise<Array<IteratorPartition>> {
+    const partitionCount = this._partitionCount ?? this._workers
+    if (partitionCount <= 1) {
+      return toPartitions([])
+    }
+    if (this._strategy === 'id-range') {
+      return toPartitions(splitIdRange(partitionCount, this._idAlphabet))
+    }
+    return toPartitions(await this.partitionQueryBoundaries(partitionCount))
+  }
+
+  async iterateBatch(entityBatchConsumer:(entities:Array<T>, partition:IteratorPartition) => Promise<boolean|void>):Promise<ParallelIteratorResult> {
+    const partitions = this._partitions ?? await this.createPartitions()
+    let stopped = false
+
+    const partitionResults = await mapWithConcurrency(partitions, Math.max(1, this._workers), async (partition):Promise<PartitionResult> => {
+      // results are counted here rather than taken from the CollectionIterator, as batches read after a stop are not processed
+      let totalNumberOfResults = 0
+      let lastProcessedId = partition.startAfterId ?? null
+      let skipped = stopped
+      if (skipped) {
+        return {totalNumberOfResults, lastProcessedId, finished: false, partition}
+      }
+      const rangeQueries:Array<Query<T>> = []
+      if (partition.startAtId !== null) {
+        rangeQueries.push({field: "id", operation: ">=", value: partition.startAtId})
+      }
+      if (partition.endBeforeId !== null) {
+        rangeQueries.push({field: "id", operation: "<", value: partition.endBeforeId})
+      }
+      if (lastProcessedId !== null) {
+        // resume by id rather than from a document, as the last processed entity may have been deleted since
+        rangeQueries.push({field: "id", operation: ">", value: lastProcessedId})
+      }
+      const result = await this.repo.iterator()
+        .queries([...this._queries, ...rangeQueries])
+        .sort([{field: "id", order: SortOrder.ASC}])
+        .batchSize(this._batchSize)
+        .includeDeleted(this._includeDeleted)
+        .iterateBatch(async entities => {
+          // returning true from the consumer stops every partition, not just the one it was scanning
+          if (stopped) {
+            skipped = true
+            return true
+          }
+          const exit = !!(await entityBatchConsumer(entities, partition))
+          totalNumberOfResults += entities.length
+          lastProcessedId = entities[entities.length - 1].id
+          stopped = stopped || exit
+          return exit
+        })
+      return {totalNumberOfResults, lastProcessedId, finished: result.finished && !skipped, partition}
+    })
+
+    return {
+      totalNumberOfResults: partitionResults.reduce((total, result) => total + result.totalNumberOfResults, 0),
+      lastProcessedId: partitionResults.length > 0 ? partitionResults[partitionResults.length - 1].lastProcessedId : null,
+      finished: partitionResults.every(result => result.finished),
+      partitions: partitionResults,
+    }
+  }
+
+  async iterate(
+    entityConsumer:(entity:T) => Promise<boolean|void>,
+    errorHandler?: (error:any, entity:T) => void,
+  ):Promise<ParallelIteratorResult> {
+    return this.iterateBatch(async entities => {
+      const shouldExit = await Promise.all(entities.map(async entity => {
+        try {
+          return !!(await entityConsumer(entity))
+        } catch (error:any) {
+          if (errorHandler) {
+            errorHandler(error, entity)
+            return false
+          }
+          throw error
+        }
+      }))
+      return shouldExit.some(exit => exit)
+    })
+  }
+
+  // Firestore only partitions collection group queries, so boundaries from other collections with the same ID are skipped
+  private async partitionQueryBoundaries(partitionCount:number):Promise<Array<string>> {
+    const collection = this.repo.getFirebaseCollection()
+    const boundaries = new Array<string>()
+    for await (const partition of collection.firestore.collectionGroup(collection.id).getPartitions(partitionCount)) {
+      const boundary = <DocumentReference|undefined>partition.endBefore?.[0]
+      if (boundary && boundary.parent.path === collection.path) {
+        boundaries.push(boundary.id)
+      }
+    }
+    return boundaries
+  }
+
+}
+
+/**
+ * The partitions that still have entities left to scan, each set to carry on from where it stopped.
+ */
+export const unfinishedPartitions = (result:ParallelIteratorResult):Array<IteratorPartition> => {
+  return result.partitions
+    .filter(partitionResult => !partitionResult.finished)
+    .map(partitionResult => ({...partitionResult.partition, startAfterId: partitionResult.lastProcessedId}))
+}
@@ -0,0 +1,34 @@
+/**
+ * Whether the value is a map of fields, rather than an array or a class instance such as a Timestamp or FieldValue.
+ */
+export const isPlainObject = (value:any):boolean => {
+  if (value === null || typeof value !== 'object') {
+    return false
+  }
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * Copies the maps, arrays, bytes and dates in a value, so that changing the copy does not change the original.
+ * Other class instances, such as Timestamps, GeoPoints and DocumentReferences, cannot be changed, so they are shared.
+ */
+export const cloneValue = (value:any):any => {
+  if (Array.isArray(value)) {
+    return value.map(cloneValue)
+  }
+  if (isPlainObject(value)) {
+    const clone:{[key:string]:any} = {}
+    Object.keys(value).forEach(key => {
+      clone[key] = cloneValue(value[key])
+    })
+    return clone
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value)
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime())
+  }
+  return value
+}
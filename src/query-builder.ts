@@ -0,0 +1,265 @@
+import {DocumentReference, FieldValue, GeoPoint, Timestamp, WhereFilterOp} from "@google-cloud/firestore";
+import {
+  AnyEntity,
+  CollectionIterator,
+  CompositeQuery,
+  FirestoreCrudRepository,
+  Query,
+  QueryFilter,
+  QueryOptions,
+  Sort,
+  SortOrder,
+} from "./index";
+import {Page} from "./pagination";
+import {InvalidQueryError} from "./errors";
+
+// values that are stored as a single field, rather than as a map of nested fields
+type LeafValue = Timestamp|GeoPoint|DocumentReference|FieldValue|Date|Uint8Array|ReadonlyArray<any>
+
+// limits the depth nested fields are followed to, so that recursive types do not expand forever
+type PreviousDepth = [never, 0, 1, 2, 3]
+
+/**
+ * The fields of an entity that can be queried, with the fields of nested maps as dotted paths, e.g. `address.city`.
+ */
+export type EntityPath<T, Depth extends number = 4> = [Depth] extends [never] ? never : {
+  [K in Extract<keyof T, string>]-?: NonNullable<T[K]> extends LeafValue
+    ? K
+    : NonNullable<T[K]> extends object
+      ? K|`${K}.${EntityPath<NonNullable<T[K]>, PreviousDepth[Depth]>}`
+      : K
+}[Extract<keyof T, string>]
+
+/**
+ * The type of the value at a dotted path of an entity.
+ */
+export type PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T ? PathValue<NonNullable<T[K]>, Rest> : never
+  : P extends keyof T ? T[P] : never
+
+type ArrayElement<V> = V extends ReadonlyArray<infer E> ? E : never
+
+/**
+ * The value a filter takes for a field of type `V`, e.g. an array of values for `in`,
+ * and an element of the array for `array-contains`, which can only be used on array fields.
+ */
+export type FilterValue<V, O extends WhereFilterOp> =
+  O extends 'in'|'not-in' ? Array<NonNullable<V>> :
+  O extends 'array-contains' ? ArrayElement<NonNullable<V>> :
+  O extends 'array-contains-any' ? Array<ArrayElement<NonNullable<V>>> :
+  O extends '=='|'!=' ? V|null :
+  NonNullable<V>
+
+export const MAX_IN_FILTER_VALUES = 30;
+export const MAX_NOT_IN_FILTER_VALUES = 10;
+export const MAX_DISJUNCTIONS = 30;
+
+const INEQUALITY_OPERATIONS:Array<WhereFilterOp> = ['<', '<=', '>', '>=', '!=', 'not-in']
+
+/**
+ * Builds typed filters to combine with `or` and `and`, and pass to `where()`, `getMany()` or any other method that takes queries.
+ */
+export const Filter = {
+  where: <T, P extends EntityPath<T> = EntityPath<T>, O extends WhereFilterOp = WhereFilterOp>(
+    field:P,
+    operation:O,
+    value:FilterValue<PathValue<T, P>, O>,
+  ):Query<T> => ({field, operation, value}),
+  or: <T>(...queries:Array<QueryFilter<T>>):CompositeQuery<T> => ({operator: 'or', queries}),
+  and: <T>(...queries:Array<QueryFilter<T>>):CompositeQuery<T> => ({operator: 'and', queries}),
+}
+
+const isComposite = <T>(query:QueryFilter<T>):query is CompositeQuery<T> => {
+  return 'queries' in query
+}
+
+const fieldQueries = <T>(queries:Array<QueryFilter<T>>):Array<Query<T>> => {
+  return queries.flatMap(query => isComposite(query) ? fieldQueries(query.queries) : [query])
+}
+
+// Firestore runs a query as the OR of the AND of its filters, each `in` value is its own disjunction
+const countDisjunctions = <T>(query:QueryFilter<T>):number => {
+  if (!isComposite(query)) {
+    return ['in', 'array-contains-any'].includes(query.operation) && Array.isArray(query.value) ? query.value.length : 1
+  }
+  const counts = query.queries.map(countDisjunctions)
+  return query.operator === 'or'
+    ? counts.reduce((total, count) => total + count, 0)
+    : counts.reduce((total, count) => total * count, 1)
+}
+
+/**
+ * Checks the queries against the Firestore rules that can be checked without running them,
+ * so that a query Firestore would reject fails before a call is made.
+ */
+export const checkQuery = <T>(
+  collectionName:string,
+  queries:Array<QueryFilter<T>>,
+  sort:Array<Sort<T>> = [],
+  limit?:number|null,
+) => {
+  const fail = (reason:string) => {
+    throw new InvalidQueryError(collectionName, reason)
+  }
+  const fields = fieldQueries(queries)
+  fields.forEach(({field, operation, value}) => {
+    if (['in', 'not-in', 'array-contains-any'].includes(operation)) {
+      const maxValues = operation === 'not-in' ? MAX_NOT_IN_FILTER_VALUES : MAX_IN_FILTER_VALUES
+      if (!Array.isArray(value) || value.length === 0) {
+        fail(`'${operation}' filter on ${field} needs a non-empty array of values`)
+      } else if (value.length > maxValues) {
+        fail(`'${operation}' filter on ${field} has ${value.length} values, at most ${maxValues} are allowed`)
+      }
+    }
+  })
+
+  const notInFilters = fields.filter(query => query.operation === 'not-in')
+  if (notInFilters.length > 1) {
+    fail(`only one 'not-in' filter is allowed in a query`)
+  }
+  if (notInFilters.length > 0) {
+    const conflicting = fields.find(query => ['!=', 'in', 'array-contains-any'].includes(query.operation))
+    if (conflicting) {
+      fail(`a 'not-in' filter cannot be combined with a '${conflicting.operation}' filter`)
+    }
+    if (queries.some(query => isComposite(query) && query.operator === 'or')) {
+      fail(`a 'not-in' filter cannot be combined with an or filter`)
+    }
+  }
+
+  const disjunctions = countDisjunctions<T>({operator: 'and', queries})
+  if (disjunctions > MAX_DISJUNCTIONS) {
+    fail(`the filters make ${disjunctions} disjunctions, at most ${MAX_DISJUNCTIONS} are allowed`)
+  }
+
+  const inequalityFields = Array.from(new Set(
+    fields.filter(query => INEQUALITY_OPERATIONS.includes(query.operation)).map(query => query.field)
+  ))
+  if (inequalityFields.length > 0 && sort.length > 0 && !inequalityFields.includes(sort[0].field)) {
+    fail(`the range filter field ${inequalityFields.join(' or ')} must be ordered first, but the first order is on ${sort[0].field}`)
+  }
+
+  if (limit !== undefined && limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+    fail(`the limit must be a positive integer, got ${limit}`)
+  }
+}
+
+/**
+ * Builds a query with typed fields and values, then runs it through the repository in the same way as `getMany()`.
+ *
+ * Filters added with `where()` are ANDed together. `orWhere()` starts a new group of filters that is ORed with the ones before it,
+ * so `where(a).where(b).orWhere(c).where(d)` matches entities that match `(a AND b) OR (c AND d)`.
+ */
+export class QueryBuilder<T extends AnyEntity> {
+
+  private readonly groups:Array<Array<QueryFilter<T>>> = [[]];
+  private readonly _sort:Array<Sort<T>> = [];
+  private _limit:number|null = null;
+  private _startAfterId:string|null = null;
+  private _includeDeleted = false;
+
+  constructor(
+    readonly repo:FirestoreCrudRepository<T>
+  ) {}
+
+  where(filter:QueryFilter<T>):QueryBuilder<T>
+  where<P extends EntityPath<T>, O extends WhereFilterOp>(field:P, operation:O, value:FilterValue<PathValue<T, P>, O>):QueryBuilder<T>
+  where(fieldOrFilter:string|QueryFilter<T>, operation?:WhereFilterOp, value?:any):QueryBuilder<T> {
+    this.groups[this.groups.length - 1].push(this.toFilter(fieldOrFilter, operation, value));
+    return this;
+  }
+
+  orWhere(filter:QueryFilter<T>):QueryBuilder<T>
+  orWhere<P extends EntityPath<T>, O extends WhereFilterOp>(field:P, operation:O, value:FilterValue<PathValue<T, P>, O>):QueryBuilder<T>
+  orWhere(fieldOrFilter:string|QueryFilter<T>, operation?:WhereFilterOp, value?:any):QueryBuilder<T> {
+    this.groups.push([this.toFilter(fieldOrFilter, operation, value)]);
+    return this;
+  }
+
+  orderBy(field:EntityPath<T>, order:SortOrder = SortOrder.ASC):QueryBuilder<T> {
+    this._sort.push({field, order});
+    return this;
+  }
+
+  limit(limit:number):QueryBuilder<T> {
+    this._limit = limit;
+    return this;
+  }
+
+  startAfterId(startAfterId:string|null):QueryBuilder<T> {
+    this._startAfterId = startAfterId;
+    return this;
+  }
+
+  includeDeleted(includeDeleted:boolean):QueryBuilder<T> {
+    this._includeDeleted = includeDeleted;
+    return this;
+  }
+
+  /**
+   * The filters of the query, in the form taken by `getMany()` and the other methods that take queries.
+   */
+  toQueries():Array<QueryFilter<T>> {
+    const groups = this.groups.filter(group => group.length > 0)
+    if (groups.length <= 1) {
+      return groups[0] ?? []
+    }
+    return [Filter.or<T>(...groups.map(group => group.length === 1 ? group[0] : Filter.and<T>(...group)))]
+  }
+
+  toQueryOptions():QueryOptions<T> {
+    const queryOptions:QueryOptions<T> = {sort: this._sort, includeDeleted: this._includeDeleted}
+    if (this._limit !== null) {
+      queryOptions.limit = this._limit
+    }
+    if (this._startAfterId !== null) {
+      queryOptions.startAfterId = this._startAfterId
+    }
+    return queryOptions
+  }
+
+  async get():Promise<Array<T>> {
+    this.check(this._limit)
+    return this.repo.getMany(this.toQueries(), this.toQueryOptions())
+  }
+
+  /**
+   * Reads a page of the size set by `limit()`, see `getPage()`.
+   */
+  async getPage(cursor:string|null = null):Promise<Page<T>> {
+    if (this._limit === null) {
+      throw new InvalidQueryError(this.repo.getFirebaseCollection().path, `a limit must be set to read a page`)
+    }
+    this.check(this._limit)
+    return this.repo.getPage(this.toQueries(), {limit: this._limit, sort: this._sort, cursor, includeDeleted: this._includeDeleted})
+  }
+
+  async count():Promise<number> {
+    this.check(null)
+    return this.repo.count(this.toQueries(), {includeDeleted: this._includeDeleted})
+  }
+
+  /**
+   * A CollectionIterator over the entities the query matches, in batches of the size set by `limit()` if there is one.
+   */
+  iterator():CollectionIterator<T> {
+    this.check(this._limit)
+    const iterator = this.repo.iterator()
+      .queries(this.toQueries())
+      .sort(this._sort)
+      .includeDeleted(this._includeDeleted)
+      .startAfterId(this._startAfterId)
+    return this._limit !== null ? iterator.batchSize(this._limit) : iterator
+  }
+
+  private check(limit:number|null) {
+    checkQuery(this.repo.getFirebaseCollection().path, this.toQueries(), this._sort, limit)
+  }
+
+  private toFilter(fieldOrFilter:string|QueryFilter<T>, operation?:WhereFilterOp, value?:any):QueryFilter<T> {
+    return typeof fieldOrFilter === 'string'
+      ? {field: fieldOrFilter, operation: operation!, value}
+      : fieldOrFilter
+  }
+
+}
@@ -0,0 +1,77 @@
+import {isTransientError, toRepositoryError} from "./errors";
+import {sleep} from "./concurrency";
+
+/**
+ * How calls to Firestore that fail with a transient error are retried, e.g. when Firestore is unavailable or a transaction is aborted.
+ *
+ * The delay before each retry grows by `multiplier` from `initialDelayMillis` up to `maxDelayMillis`,
+ * and a random part of it, up to the `jitter` fraction, is taken off so that clients failing together do not retry together.
+ */
+export interface RetryPolicy {
+  maxAttempts?:number,
+  initialDelayMillis?:number,
+  maxDelayMillis?:number,
+  multiplier?:number,
+  jitter?:number,
+}
+
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_INITIAL_DELAY_MILLIS = 100;
+export const DEFAULT_RETRY_MAX_DELAY_MILLIS = 5000;
+export const DEFAULT_RETRY_MULTIPLIER = 2;
+export const DEFAULT_RETRY_JITTER = 0.5;
+
+/**
+ * The delay before retrying after the given attempt, counting from 1.
+ */
+export const retryDelay = (policy:RetryPolicy, attempt:number, random:() => number = Math.random):number => {
+  const initialDelay = policy.initialDelayMillis ?? DEFAULT_RETRY_INITIAL_DELAY_MILLIS
+  const maxDelay = policy.maxDelayMillis ?? DEFAULT_RETRY_MAX_DELAY_MILLIS
+  const multiplier = policy.multiplier ?? DEFAULT_RETRY_MULTIPLIER
+  const jitter = Math.min(Math.max(policy.jitter ?? DEFAULT_RETRY_JITTER, 0), 1)
+  const delay = Math.min(maxDelay, initialDelay * Math.pow(multiplier, attempt - 1))
+  return Math.round(delay * (1 - jitter * random()))
+}
+
+/**
+ * Runs the action, retrying it under the policy while it fails with a transient error, no policy runs it once.
+ * `onRetry` is called before each retry, and the error of the last attempt is thrown.
+ */
+export const withRetry = async <R>(
+  policy:RetryPolicy|null,
+  action:() => Promise<R>,
+  onRetry:(attempt:number, error:any) => void,
+):Promise<R> => {
+  const maxAttempts = policy ? Math.max(1, policy.maxAttempts ?? DEFAULT_RETRY_MAX_ATTEMPTS) : 1
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await action()
+    } catch (error:any) {
+      if (!policy || attempt >= maxAttempts || !isTransientError(error)) {
+        throw error
+      }
+      onRetry(attempt, error)
+      await sleep(retryDelay(policy, attempt))
+    }
+  }
+}
+
+/**
+ * Makes a call to Firestore for a repository, retried under the policy, and throws its error as the matching RepositoryError.
+ */
+export const callWithRetry = async <R>(
+  policy:RetryPolicy|null,
+  context:{collectionName:string, ids:Array<string>, operation:string},
+  action:() => Promise<R>,
+  onRetry:() => void,
+):Promise<R> => {
+  let attempts = 1
+  try {
+    return await withRetry(policy, action, () => {
+      attempts++
+      onRetry()
+    })
+  } catch (error:any) {
+    throw toRepositoryError(error, context.collectionName, context.ids, context.operation, attempts)
+  }
+}
@@ -0,0 +1,92 @@
+import {DocumentReference, Firestore, GeoPoint, Timestamp} from "@google-cloud/firestore";
+import {InMemoryDocumentReference} from "./in-memory-firestore";
+import {isPlainObject} from "./plain-object";
+
+/**
+ * Converts Firestore values to and from plain JSON values without losing their types.
+ *
+ * Values JSON cannot represent are written as objects tagged with a `__type` property.
+ * Maps that have their own `__type` property are wrapped, so that they cannot be mistaken for a tagged value.
+ */
+
+export type JsonValue = null|boolean|number|string|Array<JsonValue>|{[key:string]:JsonValue}
+
+const TYPE_KEY = "__type"
+
+export const encodeValue = (value:any):JsonValue => {
+  if (value === null || value === undefined) {
+    return null
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return {[TYPE_KEY]: "number", value: String(value)}
+  }
+  if (typeof value === 'boolean' || typeof value === 'number' || typeof value === 'string') {
+    return value
+  }
+  if (value instanceof Timestamp) {
+    return {[TYPE_KEY]: "timestamp", seconds: value.seconds, nanoseconds: value.nanoseconds}
+  }
+  if (value instanceof Date) {
+    return encodeValue(Timestamp.fromDate(value))
+  }
+  if (value instanceof GeoPoint) {
+    return {[TYPE_KEY]: "geopoint", latitude: value.latitude, longitude: value.longitude}
+  }
+  if (value instanceof DocumentReference || value instanceof InMemoryDocumentReference) {
+    return {[TYPE_KEY]: "reference", path: value.path}
+  }
+  if (value instanceof Uint8Array) {
+    return {[TYPE_KEY]: "bytes", base64: Buffer.from(value).toString("base64")}
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue)
+  }
+  if (isPlainObject(value)) {
+    const encoded:{[key:string]:JsonValue} = {}
+    Object.keys(value).forEach(key => {
+      encoded[key] = encodeValue(value[key])
+    })
+    return TYPE_KEY in value
+      ? {[TYPE_KEY]: "map", value: encoded}
+      : encoded
+  }
+  throw new Error(`Cannot encode value of type ${value?.constructor?.name ?? typeof value}`)
+}
+
+export const decodeValue = (value:JsonValue, firestore:Firestore):any => {
+  if (Array.isArray(value)) {
+    return value.map(element => decodeValue(element, firestore))
+  }
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  if (!(TYPE_KEY in value)) {
+    const decoded:{[key:string]:any} = {}
+    Object.keys(value).forEach(key => {
+      decoded[key] = decodeValue(value[key], firestore)
+    })
+    return decoded
+  }
+  const tagged:any = value
+  switch (tagged[TYPE_KEY]) {
+    case "number":
+      return Number(tagged.value)
+    case "timestamp":
+      return new Timestamp(tagged.seconds, tagged.nanoseconds)
+    case "geopoint":
+      return new GeoPoint(tagged.latitude, tagged.longitude)
+    case "reference":
+      return firestore.doc(tagged.path)
+    case "bytes":
+      return Buffer.from(tagged.base64, "base64")
+    case "map": {
+      const decoded:{[key:string]:any} = {}
+      Object.keys(tagged.value).forEach(key => {
+        decoded[key] = decodeValue(tagged.value[key], firestore)
+      })
+      return decoded
+    }
+    default:
+      throw new Error(`Cannot decode value with unknown type ${tagged[TYPE_KEY]}`)
+  }
+}
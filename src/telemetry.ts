@@ -0,0 +1,357 @@
+import {AsyncLocalStorage} from "async_hooks";
+import {performance} from "perf_hooks";
+import {QueryFilter, RepositoryOperationStats, Sort} from "./index";
+
+export type SpanAttributeValue = string|number|boolean
+
+/**
+ * The parts of an OpenTelemetry `Span` the repository uses.
+ */
+export interface TelemetrySpan {
+  setAttribute(key:string, value:SpanAttributeValue):unknown,
+  recordException(exception:Error|string):void,
+  setStatus(status:{code:number, message?:string}):unknown,
+  end():void,
+}
+
+/**
+ * The parts of an OpenTelemetry `Tracer` the repository uses, so a tracer from `trace.getTracer()` can be passed as it is.
+ */
+export interface TelemetryTracer {
+  startActiveSpan<F extends (span:TelemetrySpan) => unknown>(
+    name:string,
+    options:{attributes?:{[key:string]:SpanAttributeValue}},
+    fn:F,
+  ):ReturnType<F>,
+}
+
+export interface TelemetryOptions {
+  tracer?:TelemetryTracer,
+  aggregator?:StatsAggregator,
+}
+
+// the status code OpenTelemetry gives spans that failed
+const SPAN_STATUS_ERROR = 2
+
+type Counts = Pick<RepositoryOperationStats,
+  'numberOfReads'|'numberOfWrites'|'numberOfDeletes'|'numberOfCacheHits'|'numberOfCacheMisses'|'numberOfRetries'>
+
+const COUNT_FIELDS:Array<keyof Counts> = [
+  'numberOfReads', 'numberOfWrites', 'numberOfDeletes', 'numberOfCacheHits', 'numberOfCacheMisses', 'numberOfRetries',
+]
+
+const SPAN_COUNT_ATTRIBUTES:{[field in keyof Counts]-?:string} = {
+  numberOfReads: 'firestore.reads',
+  numberOfWrites: 'firestore.writes',
+  numberOfDeletes: 'firestore.deletes',
+  numberOfCacheHits: 'firestore.cache_hits',
+  numberOfCacheMisses: 'firestore.cache_misses',
+  numberOfRetries: 'firestore.retries',
+}
+
+const renderFilter = <T>(query:QueryFilter<T>):string => {
+  if (!('queries' in query)) {
+    return `${query.field} ${query.operation} ?`
+  }
+  const parts = query.queries.map(renderFilter).sort()
+  return parts.length === 1 ? parts[0] : `(${parts.join(query.operator === 'or' ? ' OR ' : ' AND ')})`
+}
+
+/**
+ * The shape of a query, with its fields, operators, sorts and whether it has a limit, but none of its values,
+ * e.g. `age >= ? AND status == ? ORDER BY age DESC LIMIT ?`. Filters are sorted, so queries that only differ in order have the same shape.
+ */
+export const queryShape = <T>(queries:Array<QueryFilter<T>>, options?:{sort?:Array<Sort<T>>, limit?:number|null}|null):string => {
+  const filters = queries.map(renderFilter).sort()
+  const parts = [filters.length > 0 ? filters.join(' AND ') : '*']
+  if (options?.sort && options.sort.length > 0) {
+    parts.push(`ORDER BY ${options.sort.map(sort => `${sort.field} ${sort.order.toUpperCase()}`).join(', ')}`)
+  }
+  if (options?.limit) {
+    parts.push('LIMIT ?')
+  }
+  return parts.join(' ')
+}
+
+interface OperationContext {
+  owner:Instrumentation,
+  counts:Counts,
+  method:string,
+  queryShape:string|null,
+  ended:boolean,
+}
+
+const operationStorage = new AsyncLocalStorage<OperationContext>()
+
+/**
+ * Reports the stats of a repository to its `opStatHandler` and aggregator, and times and traces each call made to it.
+ *
+ * The counts of a call are summed and reported once it ends, in a single stat with its method, duration, result size and status.
+ * Counts made outside of a call, such as those of listeners and transactions, are reported as they are made.
+ */
+export class Instrumentation {
+
+  constructor(
+    private readonly options:{opStatHandler?:(stats:RepositoryOperationStats) => void, telemetry?:TelemetryOptions}|undefined,
+    private readonly describe:() => Pick<RepositoryOperationStats, 'collectionName'|'collectionPath'>,
+  ) {}
+
+  /**
+   * Adds counts to the call being run, or reports them straight away if there is none or they are tagged with a method of their own.
+   */
+  report(stats:Omit<RepositoryOperationStats, 'collectionName'>) {
+    const context = operationStorage.getStore()
+    // work started by a call can outlive it, e.g. a cache write left running, its counts are reported on their own
+    if (context?.owner !== this || context.ended || stats.method !== undefined) {
+      this.emit(stats)
+      return
+    }
+    COUNT_FIELDS.forEach(field => {
+      if (stats[field] !== undefined) {
+        context.counts[field] = (context.counts[field] ?? 0) + stats[field]!
+      }
+    })
+  }
+
+  /**
+   * Runs a call to a repository method, in a span when there is a tracer.
+   * Calls made while another method of the same repository is running, such as the read made by `createAndReturn`, are counted as part of it.
+   */
+  async run<R>(
+    method:string,
+    queryShape:string|null,
+    action:() => Promise<R>,
+    resultSize:(result:R) => number|null = () => null,
+  ):Promise<R> {
+    const current = operationStorage.getStore()
+    if (current?.owner === this && !current.ended) {
+      return action()
+    }
+    const context:OperationContext = {owner: this, counts: {}, method, queryShape, ended: false}
+    const tracer = this.options?.telemetry?.tracer
+    if (!tracer) {
+      return this.execute(context, null, action, resultSize)
+    }
+    const {collectionName, collectionPath} = this.describe()
+    const attributes:{[key:string]:SpanAttributeValue} = {
+      'db.system': 'firestore',
+      'db.collection.name': collectionPath ?? collectionName,
+      'db.operation.name': method,
+    }
+    if (queryShape !== null) {
+      attributes['db.query.text'] = queryShape
+    }
+    return tracer.startActiveSpan(`${method} ${collectionName}`, {attributes}, span => this.execute(context, span, action, resultSize))
+  }
+
+  private async execute<R>(
+    context:OperationContext,
+    span:TelemetrySpan|null,
+    action:() => Promise<R>,
+    resultSize:(result:R) => number|null,
+  ):Promise<R> {
+    const start = performance.now()
+    let size:number|null = null
+    let error:any = null
+    try {
+      const result = await operationStorage.run(context, action)
+      size = resultSize(result)
+      return result
+    } catch (caught:any) {
+      error = caught
+      throw caught
+    } finally {
+      context.ended = true
+      const durationMillis = performance.now() - start
+      this.emit({
+        ...context.counts,
+        method: context.method,
+        ...(context.queryShape !== null ? {queryShape: context.queryShape} : {}),
+        durationMillis,
+        ...(size !== null ? {resultSize: size} : {}),
+        status: error ? 'error' : 'ok',
+        ...(error ? {errorName: error?.name ?? 'Error'} : {}),
+      })
+      if (span) {
+        COUNT_FIELDS.forEach(field => {
+          if (context.counts[field]) {
+            span.setAttribute(SPAN_COUNT_ATTRIBUTES[field], context.counts[field]!)
+          }
+        })
+        if (size !== null) {
+          span.setAttribute('db.response.returned_rows', size)
+        }
+        if (error) {
+          span.recordException(error instanceof Error ? error : String(error))
+          span.setStatus({code: SPAN_STATUS_ERROR, message: error?.message})
+        }
+        span.end()
+      }
+    }
+  }
+
+  private emit(stats:Omit<RepositoryOperationStats, 'collectionName'>) {
+    const {opStatHandler, telemetry} = this.options ?? {}
+    if (!opStatHandler && !telemetry?.aggregator) {
+      return
+    }
+    const event:RepositoryOperationStats = {...this.describe(), ...stats}
+    telemetry?.aggregator?.record(event)
+    opStatHandler?.(event)
+  }
+
+}
+
+export interface LatencySummary {
+  averageMillis:number,
+  p50Millis:number,
+  p95Millis:number,
+  p99Millis:number,
+  maxMillis:number,
+}
+
+/**
+ * Prices in any currency, e.g. the price per 100,000 operations in the collection's region divided by 100,000.
+ */
+export interface OperationPricing {
+  perRead:number,
+  perWrite:number,
+  perDelete:number,
+}
+
+export interface OperationSummary extends Required<Counts> {
+  numberOfCalls:number,
+  numberOfErrors:number,
+  estimatedCost:number|null,
+  latency:LatencySummary|null,
+}
+
+export interface CollectionSummary extends OperationSummary {
+  collectionName:string,
+  methods:{[method:string]:OperationSummary},
+  queryShapes:{[queryShape:string]:OperationSummary},
+}
+
+export const DEFAULT_LATENCY_SAMPLE_SIZE = 1000;
+
+interface Totals {
+  counts:Required<Counts>,
+  numberOfCalls:number,
+  numberOfErrors:number,
+  durations:Array<number>,
+}
+
+const emptyTotals = ():Totals => ({
+  counts: {numberOfReads: 0, numberOfWrites: 0, numberOfDeletes: 0, numberOfCacheHits: 0, numberOfCacheMisses: 0, numberOfRetries: 0},
+  numberOfCalls: 0,
+  numberOfErrors: 0,
+  durations: [],
+})
+
+const percentile = (sorted:Array<number>, fraction:number):number => {
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)]
+}
+
+/**
+ * Sums the stats of every repository it is given to, by collection, then by method and by query shape,
+ * to show which calls make up the cost of each collection and how long they take.
+ *
+ * Collections are grouped by name, so the subcollections of every parent, or the collections of every tenant, are summed together.
+ * Latencies are taken from the most recent calls, up to `latencySampleSize` of them.
+ */
+export class StatsAggregator {
+
+  private readonly collections = new Map<string, {totals:Totals, methods:Map<string, Totals>, queryShapes:Map<string, Totals>}>()
+
+  constructor(
+    private readonly options?:{pricing?:OperationPricing, latencySampleSize?:number},
+  ) {}
+
+  record(stats:RepositoryOperationStats) {
+    let collection = this.collections.get(stats.collectionName)
+    if (!collection) {
+      collection = {totals: emptyTotals(), methods: new Map(), queryShapes: new Map()}
+      this.collections.set(stats.collectionName, collection)
+    }
+    const targets = [collection.totals]
+    if (stats.method) {
+      targets.push(this.totalsFor(collection.methods, stats.method))
+    }
+    if (stats.queryShape) {
+      targets.push(this.totalsFor(collection.queryShapes, stats.queryShape))
+    }
+    targets.forEach(totals => this.add(totals, stats))
+  }
+
+  summary():Array<CollectionSummary> {
+    return Array.from(this.collections.entries())
+      .sort(([first], [second]) => first.localeCompare(second))
+      .map(([collectionName, collection]) => ({
+        collectionName,
+        ...this.summarise(collection.totals),
+        methods: this.summariseAll(collection.methods),
+        queryShapes: this.summariseAll(collection.queryShapes),
+      }))
+  }
+
+  reset() {
+    this.collections.clear()
+  }
+
+  private totalsFor(totalsByKey:Map<string, Totals>, key:string):Totals {
+    let totals = totalsByKey.get(key)
+    if (!totals) {
+      totals = emptyTotals()
+      totalsByKey.set(key, totals)
+    }
+    return totals
+  }
+
+  private add(totals:Totals, stats:RepositoryOperationStats) {
+    COUNT_FIELDS.forEach(field => {
+      totals.counts[field] += stats[field] ?? 0
+    })
+    if (stats.durationMillis === undefined) {
+      return
+    }
+    totals.numberOfCalls++
+    if (stats.status === 'error') {
+      totals.numberOfErrors++
+    }
+    totals.durations.push(stats.durationMillis)
+    if (totals.durations.length > (this.options?.latencySampleSize ?? DEFAULT_LATENCY_SAMPLE_SIZE)) {
+      totals.durations.shift()
+    }
+  }
+
+  private summariseAll(totalsByKey:Map<string, Totals>):{[key:string]:OperationSummary} {
+    const summaries:{[key:string]:OperationSummary} = {}
+    Array.from(totalsByKey.keys()).sort().forEach(key => {
+      summaries[key] = this.summarise(totalsByKey.get(key)!)
+    })
+    return summaries
+  }
+
+  private summarise(totals:Totals):OperationSummary {
+    const pricing = this.options?.pricing
+    const sorted = [...totals.durations].sort((first, second) => first - second)
+    return {
+      ...totals.counts,
+      numberOfCalls: totals.numberOfCalls,
+      numberOfErrors: totals.numberOfErrors,
+      estimatedCost: pricing
+        ? totals.counts.numberOfReads * pricing.perRead
+          + totals.counts.numberOfWrites * pricing.perWrite
+          + totals.counts.numberOfDeletes * pricing.perDelete
+        : null,
+      latency: sorted.length === 0 ? null : {
+        averageMillis: sorted.reduce((total, duration) => total + duration, 0) / sorted.length,
+        p50Millis: percentile(sorted, 0.5),
+        p95Millis: percentile(sorted, 0.95),
+        p99Millis: percentile(sorted, 0.99),
+        maxMillis: sorted[sorted.length - 1],
+      },
+    }
+  }
+
+}
@@ -0,0 +1,23 @@
+/**
+ * How the entities of each tenant are kept apart:
+ * `field` keeps every tenant in the same collection, with the tenant ID in a field of each entity,
+ * `collection` keeps each tenant in a collection of its own.
+ */
+export type TenancyStrategy = 'field'|'collection'
+
+/**
+ * The tenant is given by the `tenantProvider` on each call, e.g. read from an `AsyncLocalStorage`,
+ * or fixed by `forTenant()`.
+ */
+export interface TenancyOptions {
+  tenantProvider?:() => string|null|undefined,
+  strategy?:TenancyStrategy,
+  tenantField?:string,
+  collectionPath?:(tenantId:string, collectionName:string) => string,
+}
+
+export const DEFAULT_TENANT_FIELD = "tenantId";
+
+export const DEFAULT_TENANT_COLLECTION_PATH = (tenantId:string, collectionName:string):string => {
+  return `tenants/${tenantId}/${collectionName}`
+}
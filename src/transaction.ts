@@ -0,0 +1,186 @@
+import {Firestore, Transaction} from "@google-cloud/firestore";
+import {
+  AnyEntity,
+  Create,
+  FirestoreCrudRepository,
+  QueryFilter,
+  QueryOptions,
+  ReadOptions,
+  RepositoryOperationStats,
+  Update,
+  UpdateOptions,
+} from "./index";
+
+type OperationStats = Omit<RepositoryOperationStats, "collectionName">
+
+interface OperationCounts {
+  numberOfReads:number,
+  numberOfWrites:number,
+  numberOfDeletes:number,
+}
+
+/**
+ * A view of a FirestoreCrudRepository bound to a single transaction.
+ *
+ * Reads are made as soon as they are called, writes are held until the callback passed to
+ * `runInTransaction` returns, so that all reads happen before any writes as Firestore requires.
+ * Reads do not see writes made earlier in the same transaction.
+ */
+export interface TransactionalRepository<T extends AnyEntity> {
+  getOne(id:string, options?:ReadOptions):Promise<T|null>,
+  getMany(queries:Array<QueryFilter<T>>, queryOptions?:QueryOptions<T>|null):Promise<Array<T>>,
+  createOnly(create:Create<T>):Promise<string>,
+  updateOnly(id:string, value:Update<T>, options?:UpdateOptions):Promise<string|null>,
+  mergeOnly(id:string, value:Update<T>, options?:UpdateOptions):Promise<string|null>,
+  delete(id:string):Promise<boolean>,
+}
+
+export type TransactionalRepositories<R> = {
+  [K in keyof R]:R[K] extends FirestoreCrudRepository<infer T> ? TransactionalRepository<T> : never
+}
+
+interface StatTotals {
+  report:(stats:OperationStats) => void,
+  committed:OperationCounts,
+  pendingWrites:number,
+  pendingDeletes:number,
+}
+
+const addStats = (totals:OperationCounts, stats:OperationStats) => {
+  totals.numberOfReads += stats.numberOfReads ?? 0
+  totals.numberOfWrites += stats.numberOfWrites ?? 0
+  totals.numberOfDeletes += stats.numberOfDeletes ?? 0
+}
+
+/**
+ * Tracks the transaction for the current attempt, the writes waiting to be applied to it and
+ * the operation stats of each repository taking part, which are reported once the transaction ends.
+ */
+export class TransactionScope {
+
+  private currentTransaction:Transaction|null = null
+  private pendingWrites:Array<(transaction:Transaction) => void> = []
+  private commitCallbacks:Array<() => Promise<void>> = []
+  private readonly stats = new Map<object, StatTotals>()
+
+  get transaction():Transaction {
+    if (!this.currentTransaction) {
+      throw new Error('The transaction has not started, transactional repositories can only be used inside runInTransaction.')
+    }
+    return this.currentTransaction
+  }
+
+  /** @internal */
+  begin(transaction:Transaction) {
+    this.currentTransaction = transaction
+    this.pendingWrites = []
+    this.commitCallbacks = []
+    this.stats.forEach(totals => {
+      totals.pendingWrites = 0
+      totals.pendingDeletes = 0
+    })
+  }
+
+  /**
+   * Reads are billed whether or not the transaction commits, so are recorded straight away.
+   */
+  recordReads(source:object, report:(stats:OperationStats) => void, numberOfReads:number) {
+    addStats(this.totalsFor(source, report).committed, {numberOfReads})
+  }
+
+  write(
+    source:object,
+    report:(stats:OperationStats) => void,
+    stats:{numberOfWrites?:number, numberOfDeletes?:number},
+    apply:(transaction:Transaction) => void,
+  ) {
+    const totals = this.totalsFor(source, report)
+    totals.pendingWrites += stats.numberOfWrites ?? 0
+    totals.pendingDeletes += stats.numberOfDeletes ?? 0
+    this.pendingWrites.push(apply)
+  }
+
+  /**
+   * Runs the callback once the transaction has committed, it is dropped if the attempt is retried.
+   * Callbacks are run one at a time, in the order they were added.
+   */
+  afterCommit(callback:() => Promise<void>) {
+    this.commitCallbacks.push(callback)
+  }
+
+  /** @internal */
+  flush() {
+    const transaction = this.transaction
+    this.pendingWrites.forEach(apply => apply(transaction))
+    this.pendingWrites = []
+  }
+
+  /** @internal */
+  async commit() {
+    this.stats.forEach(totals => {
+      addStats(totals.committed, {numberOfWrites: totals.pendingWrites, numberOfDeletes: totals.pendingDeletes})
+      totals.pendingWrites = 0
+      totals.pendingDeletes = 0
+    })
+    const commitCallbacks = this.commitCallbacks
+    this.commitCallbacks = []
+    for (const callback of commitCallbacks) {
+      await callback()
+    }
+  }
+
+  /** @internal */
+  reportStats() {
+    this.stats.forEach(totals => totals.report(totals.committed))
+    this.stats.clear()
+  }
+
+  private totalsFor(source:object, report:(stats:OperationStats) => void):StatTotals {
+    let totals = this.stats.get(source)
+    if (!totals) {
+      totals = {report, committed: {numberOfReads: 0, numberOfWrites: 0, numberOfDeletes: 0}, pendingWrites: 0, pendingDeletes: 0}
+      this.stats.set(source, totals)
+    }
+    return totals
+  }
+
+}
+
+/**
+ * Runs the callback in a single Firestore transaction, handing it a transaction-bound view of each repository.
+ *
+ * All repositories must share the same Firestore instance. The callback may be run more than once if
+ * Firestore retries the transaction, so it should not have side effects outside of the repositories.
+ */
+export const runInTransaction = async <R extends {[name:string]:FirestoreCrudRepository<any>}, V>(
+  repositories:R,
+  callback:(repositories:TransactionalRepositories<R>) => Promise<V>,
+  options?:{maxAttempts?:number},
+):Promise<V> => {
+  const repositoryList = Object.values(repositories)
+  if (repositoryList.length === 0) {
+    throw new Error('At least one repository is required to run a transaction.')
+  }
+  const firestore:Firestore = repositoryList[0].getFirebaseCollection().firestore
+  if (repositoryList.some(repository => repository.getFirebaseCollection().firestore !== firestore)) {
+    throw new Error('All repositories in a transaction must use the same Firestore instance.')
+  }
+
+  const scope = new TransactionScope()
+  try {
+    const result = await firestore.runTransaction(async transaction => {
+      scope.begin(transaction)
+      const views:any = {}
+      Object.keys(repositories).forEach(name => {
+        views[name] = repositories[name].inTransaction(scope)
+      })
+      const callbackResult = await callback(views)
+      scope.flush()
+      return callbackResult
+    }, options)
+    await scope.commit()
+    return result
+  } finally {
+    scope.reportStats()
+  }
+}
@@ -0,0 +1,47 @@
+import {Create, Update} from "./index";
+import {ValidationError, ValidationIssue, ValidationOperation} from "./errors";
+
+/**
+ * Anything with a zod-style `parse`, it should return the parsed value or throw if the value is invalid.
+ */
+export interface Validator<V> {
+  parse:(value:unknown) => V
+}
+
+export interface EntityValidator<T> {
+  create?:Validator<Create<T>>,
+  update?:Validator<Update<T>>,
+  read?:Validator<T>,
+}
+
+// zod and similar libraries throw errors carrying an array of issues, each with a path to the invalid field.
+const toValidationIssues = (error:any):Array<ValidationIssue> => {
+  if (Array.isArray(error?.issues)) {
+    return error.issues.map((issue:any) => ({
+      field: Array.isArray(issue.path) ? issue.path.join('.') : String(issue.path ?? ''),
+      message: String(issue.message ?? ''),
+    }))
+  }
+  return [{field: '', message: String(error?.message ?? error)}]
+}
+
+export const validate = <V>(
+  validator:Validator<V>|undefined,
+  value:V,
+  context:{collectionName:string, documentId:string, operation:ValidationOperation},
+):V => {
+  if (!validator) {
+    return value
+  }
+  try {
+    return validator.parse(value)
+  } catch (error:any) {
+    throw new ValidationError(
+      context.collectionName,
+      context.documentId,
+      context.operation,
+      toValidationIssues(error),
+      error,
+    )
+  }
+}